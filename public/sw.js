@@ -0,0 +1,86 @@
+// Сервис-воркер держит в кэше оболочку приложения, чтобы таблицы открывались без сети.
+// Данные таблиц живут в IndexedDB, запросы к функциям (распознавание) не кэшируются.
+const CACHE = 'voice-to-excel-shell-v2';
+const SHELL = [
+  '/',
+  '/index.html',
+  '/favicon.svg',
+  '/icon-192.png',
+  '/icon-512.png',
+  '/icon-maskable-512.png',
+  '/manifest.webmanifest',
+];
+
+// Собранные файлы имеют хэш в имени — берём их список из index.html, чтобы закэшировать сразу
+const shellAssets = async () => {
+  const response = await fetch('/index.html', { cache: 'no-cache' });
+  const html = await response.text();
+  return Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]);
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    await cache.addAll([...SHELL, ...(await shellAssets())]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// Страницы: сначала сеть (свежая версия), без сети — сохранённая оболочка. Маршруты вроде /doc/:id
+// обслуживает тот же index.html
+const handleNavigation = async request => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('/index.html')) ?? Response.error();
+  }
+};
+
+// Файлы сборки неизменны, пока не сменится хэш, — отдаём из кэша
+const handleAsset = async request => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+// Прочее своё (иконки, манифест) — из кэша, с обновлением в фоне
+const handleStatic = async request => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const update = fetch(request)
+    .then(response => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+  return cached ?? update;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request));
+  } else {
+    event.respondWith(handleStatic(request));
+  }
+});
@@ -0,0 +1,100 @@
+// Локальный сервер синхронизации для разработки: тот же контракт, что ждёт приложение.
+//   GET  /documents       → [{ id, name, revision, updatedAt }]
+//   GET  /documents/:id   → { id, name, revision, updatedAt, activeIndex, sheets } | 404
+//   PUT  /documents/:id   { baseRevision, document: { name, activeIndex, sheets } }
+//                         → { revision, updatedAt } | 409 { document | null } если baseRevision устарела
+// Данные хранятся в JSON-файле, чтобы переживать перезапуск.
+//
+//   npm run sync-server                     — порт 8787, файл .sync-data.json
+//   PORT=9000 SYNC_DATA=/tmp/d.json npm run sync-server
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = resolve(process.env.SYNC_DATA ?? '.sync-data.json');
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const documents = new Map(existsSync(DATA_FILE) ? Object.entries(JSON.parse(readFileSync(DATA_FILE, 'utf8'))) : []);
+
+const persist = () => writeFileSync(DATA_FILE, JSON.stringify(Object.fromEntries(documents)));
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req =>
+  new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const isValidContent = document =>
+  document &&
+  typeof document.name === 'string' &&
+  Number.isInteger(document.activeIndex) &&
+  Array.isArray(document.sheets) &&
+  document.sheets.length > 0;
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  const match = pathname.match(/^\/documents(?:\/([^/]+))?\/?$/);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (!match) return send(res, 404, { error: 'Not found' });
+
+  const id = match[1] && decodeURIComponent(match[1]);
+
+  if (req.method === 'GET' && !id) {
+    return send(res, 200, Array.from(documents.values(), ({ id, name, revision, updatedAt }) => ({ id, name, revision, updatedAt })));
+  }
+  if (req.method === 'GET') {
+    const document = documents.get(id);
+    return document ? send(res, 200, document) : send(res, 404, { error: 'Document not found' });
+  }
+  if (req.method === 'PUT' && id) {
+    let payload;
+    try {
+      payload = JSON.parse(await readBody(req));
+    } catch {
+      return send(res, 400, { error: 'Invalid JSON' });
+    }
+    if (!Number.isInteger(payload?.baseRevision) || !isValidContent(payload.document)) {
+      return send(res, 400, { error: 'Expected { baseRevision, document: { name, activeIndex, sheets } }' });
+    }
+    const current = documents.get(id);
+    const currentRevision = current?.revision ?? 0;
+    if (payload.baseRevision !== currentRevision) {
+      return send(res, 409, { error: 'Revision conflict', document: current ?? null });
+    }
+    const { name, activeIndex, sheets } = payload.document;
+    const next = { id, name, activeIndex, sheets, revision: currentRevision + 1, updatedAt: Date.now() };
+    documents.set(id, next);
+    persist();
+    console.log(`PUT ${id} «${name}» → revision ${next.revision}`);
+    return send(res, 200, { revision: next.revision, updatedAt: next.updatedAt });
+  }
+  return send(res, 405, { error: 'Method not allowed' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server: http://localhost:${PORT}/documents (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import Icon from '@/components/ui/icon';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { DocumentSummary } from '@/lib/storage';
+
+interface DocumentCardProps {
+  document: DocumentSummary;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdatedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const DocumentCard = ({ document, onRename, onDuplicate, onDelete }: DocumentCardProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [name, setName] = useState(document.name);
+
+  const submitRename = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== document.name) onRename(document.id, trimmed);
+    setIsRenaming(false);
+  };
+
+  return (
+    <Card className="group relative border-slate-700 bg-gradient-to-br from-slate-800/80 to-slate-900/80 hover:border-purple-500/50 transition-colors">
+      <Link to={`/doc/${document.id}`} className="block p-5">
+        <div className="flex items-start gap-3 pr-8">
+          <Icon name="FileSpreadsheet" size={24} className="shrink-0 text-green-400" />
+          <div className="min-w-0">
+            <h3 className="font-semibold text-slate-100 truncate">{document.name}</h3>
+            <p className="text-xs text-slate-500 mt-1">Изменён {formatUpdatedAt(document.updatedAt)}</p>
+          </div>
+        </div>
+        <div className="mt-4 flex items-center gap-4 text-sm text-slate-400">
+          <span className="flex items-center gap-1 min-w-0" title={document.sheetNames.join(', ')}>
+            <Icon name="Layers" size={14} className="shrink-0 text-cyan-400" />
+            <span className="truncate">
+              {document.sheetNames.length === 1 ? document.sheetNames[0] : `Листов: ${document.sheetNames.length}`}
+            </span>
+          </span>
+          <span className="flex items-center gap-1 shrink-0">
+            <Icon name="Grid3x3" size={14} className="text-purple-400" />
+            Заполнено: {document.filledCells}
+          </span>
+          {document.syncStatus !== 'local' && (
+            <span
+              className="ml-auto shrink-0"
+              title={document.syncStatus === 'dirty' ? 'Есть правки, не отправленные на сервер' : 'Синхронизировано с сервером'}
+            >
+              <Icon
+                name={document.syncStatus === 'dirty' ? 'CloudUpload' : 'Cloud'}
+                size={14}
+                className={document.syncStatus === 'dirty' ? 'text-orange-400' : 'text-green-400'}
+              />
+            </span>
+          )}
+        </div>
+      </Link>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="absolute top-3 right-3 h-8 w-8 hover:bg-slate-700/50" title="Действия">
+            <Icon name="MoreVertical" size={16} className="text-slate-400" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="bg-slate-900 border-slate-700">
+          <DropdownMenuItem onSelect={() => { setName(document.name); setIsRenaming(true); }}>
+            <Icon name="Pencil" size={14} className="mr-2" />
+            Переименовать
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onDuplicate(document.id)}>
+            <Icon name="Copy" size={14} className="mr-2" />
+            Дублировать
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsDeleting(true)} className="text-red-400 focus:text-red-400">
+            <Icon name="Trash2" size={14} className="mr-2" />
+            Удалить
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isRenaming} onOpenChange={setIsRenaming}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">Переименовать таблицу</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitRename()}
+            autoFocus
+            className="bg-slate-800 border-slate-700"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRenaming(false)} className="border-slate-600 hover:bg-slate-700/50">
+              Отмена
+            </Button>
+            <Button onClick={submitRename} disabled={!name.trim()} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleting} onOpenChange={setIsDeleting}>
+        <AlertDialogContent className="bg-slate-900 border-slate-700">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-slate-100">Удалить «{document.name}»?</AlertDialogTitle>
+            <AlertDialogDescription>Таблица будет удалена из браузера без возможности восстановления.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-slate-600 hover:bg-slate-700/50">Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onDelete(document.id)} className="bg-red-600 hover:bg-red-700">
+              Удалить
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default DocumentCard;
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ConflictChoice, MergeConflict } from '@/lib/merge';
+import { columnLabel, type SheetData } from '@/lib/sheet';
+
+interface SyncConflictDialogProps {
+  documentName: string;
+  conflicts: MergeConflict[];
+  onResolve: (choices: ConflictChoice[]) => Promise<void>;
+  onSkip: () => void;
+}
+
+interface ChoiceButtonProps {
+  value: string;
+  isSelected: boolean;
+  onSelect: () => void;
+}
+
+const ChoiceButton = ({ value, isSelected, onSelect }: ChoiceButtonProps) => (
+  <button
+    onClick={onSelect}
+    className={`w-full text-left rounded border px-2 py-1 text-sm transition-colors ${
+      isSelected
+        ? 'border-cyan-500 bg-cyan-500/15 text-slate-100'
+        : 'border-slate-700 text-slate-400 hover:border-slate-500'
+    }`}
+  >
+    {value === '' ? <span className="italic text-slate-500">(пусто)</span> : value}
+  </button>
+);
+
+// Лист со вставленными или удалёнными строками и столбцами сравнивается по размеру и заголовкам
+const describeSheet = ({ rowCount, columns }: SheetData) =>
+  `Строк: ${rowCount}, столбцы: ${columns.map(c => c.name).join(', ')}`;
+
+const conflictKey = (conflict: MergeConflict) =>
+  conflict.kind === 'cell' ? `${conflict.sheetName}:${conflict.row}:${conflict.col}`
+    : conflict.kind === 'sheet' ? `sheet:${conflict.sheetName}`
+    : 'name';
+
+const conflictPlace = (conflict: MergeConflict) =>
+  conflict.kind === 'cell' ? `${conflict.sheetName}!${columnLabel(conflict.col)}${conflict.row + 1}`
+    : conflict.kind === 'sheet' ? `Лист «${conflict.sheetName}» целиком`
+    : 'Название документа';
+
+const conflictValues = (conflict: MergeConflict) =>
+  conflict.kind === 'sheet'
+    ? { base: '', local: describeSheet(conflict.local), remote: describeSheet(conflict.remote) }
+    : conflict;
+
+// Обе версии ячейки рядом: пользователь выбирает, какую оставить
+const SyncConflictDialog = ({ documentName, conflicts, onResolve, onSkip }: SyncConflictDialogProps) => {
+  const [choices, setChoices] = useState<ConflictChoice[]>(() => conflicts.map(() => 'local'));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const choose = (index: number, choice: ConflictChoice) => {
+    setChoices(prev => prev.map((c, i) => (i === index ? choice : c)));
+  };
+
+  const apply = async () => {
+    setIsSaving(true);
+    try {
+      await onResolve(choices);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isSaving && onSkip()}>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Конфликт правок в «{documentName}»</DialogTitle>
+          <DialogDescription>
+            Эти ячейки изменены и у вас, и на сервере. Если строки или столбцы листа переставлены с обеих сторон,
+            выбирается лист целиком. Остальные правки объединены автоматически.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setChoices(conflicts.map(() => 'local'))} className="border-slate-600 hover:bg-slate-700/50">
+            Все мои
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setChoices(conflicts.map(() => 'remote'))} className="border-slate-600 hover:bg-slate-700/50">
+            Все с сервера
+          </Button>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto rounded-lg border border-slate-700">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-slate-900 text-slate-400">
+              <tr>
+                <th className="p-2 text-left font-medium">Ячейка</th>
+                <th className="p-2 text-left font-medium">Было</th>
+                <th className="p-2 text-left font-medium">Моя версия</th>
+                <th className="p-2 text-left font-medium">На сервере</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflicts.map((conflict, i) => {
+                const values = conflictValues(conflict);
+                return (
+                  <tr key={conflictKey(conflict)} className="border-t border-slate-800 align-top">
+                    <td className="p-2 text-slate-300 whitespace-nowrap">{conflictPlace(conflict)}</td>
+                    <td className="p-2 text-slate-500">{values.base || '—'}</td>
+                    <td className="p-2">
+                      <ChoiceButton value={values.local} isSelected={choices[i] === 'local'} onSelect={() => choose(i, 'local')} />
+                    </td>
+                    <td className="p-2">
+                      <ChoiceButton value={values.remote} isSelected={choices[i] === 'remote'} onSelect={() => choose(i, 'remote')} />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onSkip} disabled={isSaving} className="border-slate-600 hover:bg-slate-700/50">
+            Решить позже
+          </Button>
+          <Button onClick={apply} disabled={isSaving} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+            <Icon name={isSaving ? 'Loader2' : 'GitMerge'} size={16} className={`mr-2 ${isSaving ? 'animate-spin' : ''}`} />
+            Объединить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncConflictDialog;
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import Icon from '@/components/ui/icon';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+interface SyncSettingsDialogProps {
+  endpoint: string;
+  onSave: (endpoint: string) => void;
+}
+
+const SyncSettingsDialog = ({ endpoint, onSave }: SyncSettingsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState(endpoint);
+
+  const save = () => {
+    onSave(value);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setValue(endpoint);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="border-slate-600 hover:bg-slate-700/50" title="Сервер синхронизации">
+          <Icon name={endpoint ? 'Cloud' : 'CloudOff'} size={18} className={endpoint ? 'text-cyan-400' : 'text-slate-400'} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Сервер синхронизации</DialogTitle>
+          <DialogDescription>
+            Адрес REST-хранилища документов. Пустое поле — таблицы хранятся только в этом браузере.
+            Для разработки: <code className="text-cyan-400">npm run sync-server</code> и адрес http://localhost:8787
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder="https://example.com/api"
+          className="bg-slate-800 border-slate-700"
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} className="border-slate-600 hover:bg-slate-700/50">
+            Отмена
+          </Button>
+          <Button onClick={save} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+            Сохранить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncSettingsDialog;
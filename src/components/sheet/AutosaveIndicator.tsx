@@ -0,0 +1,52 @@
+import Icon from '@/components/ui/icon';
+import type { AutosaveError, AutosaveStatus } from '@/hooks/use-autosave';
+
+const ERROR_MESSAGES: Record<AutosaveError, string> = {
+  quota: 'Недостаточно места в хранилище браузера',
+  unavailable: 'Хранилище браузера недоступно',
+  unknown: 'Не удалось сохранить изменения',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+  error: AutosaveError | null;
+  savedAt: number | null;
+  onRetry: () => void;
+}
+
+const AutosaveIndicator = ({ status, error, savedAt, onRetry }: AutosaveIndicatorProps) => {
+  if (status === 'missing') return null;
+
+  if (status === 'error') {
+    return (
+      <div className="flex items-center gap-2 text-sm text-red-400" title={ERROR_MESSAGES[error ?? 'unknown']}>
+        <Icon name="TriangleAlert" size={16} />
+        <span>Не сохранено</span>
+        <button onClick={onRetry} className="text-xs underline hover:text-red-300">
+          Повторить
+        </button>
+      </div>
+    );
+  }
+
+  if (status === 'restoring' || status === 'saving') {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-400">
+        <Icon name="Loader2" size={16} className="animate-spin text-cyan-400" />
+        <span>{status === 'restoring' ? 'Загрузка…' : 'Сохранение…'}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-slate-400" title={savedAt ? `Сохранено в ${formatTime(savedAt)}` : undefined}>
+      <Icon name="Save" size={16} className="text-green-400" />
+      <span>Сохранено</span>
+    </div>
+  );
+};
+
+export default AutosaveIndicator;
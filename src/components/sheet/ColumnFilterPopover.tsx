@@ -0,0 +1,170 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import Icon from '@/components/ui/icon';
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { isFilterActive, type ColumnFilter } from '@/lib/filters';
+import type { ColumnConfig } from '@/lib/sheet';
+import { compareCellValues, type SortDirection } from '@/lib/sort';
+
+// Длинный список значений не помогает выбирать — показываем первые, остальное ищется через «Содержит»
+const MAX_LISTED_VALUES = 200;
+
+interface FilterPanelProps {
+  column: ColumnConfig;
+  filter: ColumnFilter | undefined;
+  values: string[];
+  onApply: (filter: ColumnFilter | null) => void;
+  onSort: (direction: SortDirection) => void;
+}
+
+const FilterPanel = ({ column, filter, values, onApply, onSort }: FilterPanelProps) => {
+  const [checked, setChecked] = useState(() => new Set(filter?.values ?? values));
+  const [contains, setContains] = useState(filter?.contains ?? '');
+  const [min, setMin] = useState(filter?.min ?? '');
+  const [max, setMax] = useState(filter?.max ?? '');
+  const isDate = column.type === 'date';
+
+  const toggle = (value: string) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      if (next.has(value)) next.delete(value);
+      else next.add(value);
+      return next;
+    });
+  };
+
+  const apply = () => {
+    const allChecked = values.every(v => checked.has(v));
+    onApply({
+      values: allChecked ? undefined : values.filter(v => checked.has(v)),
+      contains: contains || undefined,
+      min: min || undefined,
+      max: max || undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Button size="sm" variant="outline" onClick={() => onSort('asc')} className="border-slate-600 hover:bg-slate-700/50">
+          <Icon name="ArrowUpNarrowWide" size={16} className="mr-2 text-cyan-400" />
+          {isDate ? 'Сначала старые' : 'А → Я'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onSort('desc')} className="border-slate-600 hover:bg-slate-700/50">
+          <Icon name="ArrowDownWideNarrow" size={16} className="mr-2 text-cyan-400" />
+          {isDate ? 'Сначала новые' : 'Я → А'}
+        </Button>
+      </div>
+
+      <div className="pt-3 border-t border-slate-700 space-y-2">
+        <label className="text-sm text-slate-400 block">Содержит</label>
+        <Input
+          value={contains}
+          onChange={(e) => setContains(e.target.value)}
+          placeholder="Текст"
+          className="bg-slate-800 border-slate-700 h-8"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-slate-400 block">{isDate ? 'Даты' : 'Числа'} в диапазоне</label>
+        <div className="flex items-center gap-2">
+          <Input
+            value={min}
+            onChange={(e) => setMin(e.target.value)}
+            placeholder={isDate ? 'с дд.мм.гггг' : 'от'}
+            className="bg-slate-800 border-slate-700 h-8"
+          />
+          <Input
+            value={max}
+            onChange={(e) => setMax(e.target.value)}
+            placeholder={isDate ? 'по дд.мм.гггг' : 'до'}
+            className="bg-slate-800 border-slate-700 h-8"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-slate-400">Значения</label>
+          <button
+            onClick={() => setChecked(values.every(v => checked.has(v)) ? new Set() : new Set(values))}
+            className="text-xs text-cyan-400 hover:underline"
+          >
+            {values.every(v => checked.has(v)) ? 'Снять все' : 'Выбрать все'}
+          </button>
+        </div>
+        <div className="max-h-48 overflow-y-auto space-y-1 rounded border border-slate-700 p-2">
+          {values.slice(0, MAX_LISTED_VALUES).map(value => (
+            <label key={value} className="flex items-center gap-2 text-sm text-slate-200 cursor-pointer">
+              <Checkbox checked={checked.has(value)} onCheckedChange={() => toggle(value)} />
+              <span className="truncate">{value === '' ? '(Пустые)' : value}</span>
+            </label>
+          ))}
+          {values.length > MAX_LISTED_VALUES && (
+            <p className="text-xs text-slate-500">и ещё {values.length - MAX_LISTED_VALUES}…</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-2 pt-1">
+        <Button size="sm" variant="outline" onClick={() => onApply(null)} className="flex-1 border-slate-600 hover:bg-slate-700/50">
+          Сбросить
+        </Button>
+        <Button size="sm" onClick={apply} className="flex-1 bg-gradient-to-r from-purple-500 to-cyan-500">
+          Применить
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface ColumnFilterPopoverProps {
+  column: ColumnConfig;
+  index: number;
+  filter: ColumnFilter | undefined;
+  getValues: (index: number) => string[];
+  onFilterChange: (index: number, filter: ColumnFilter | null) => void;
+  onSort: (index: number, direction: SortDirection) => void;
+}
+
+const ColumnFilterPopover = ({ column, index, filter, getValues, onFilterChange, onSort }: ColumnFilterPopoverProps) => {
+  const [open, setOpen] = useState(false);
+  const isActive = isFilterActive(filter);
+  const values = useMemo(
+    () => (open ? Array.from(new Set(getValues(index))).sort((a, b) => compareCellValues(a, b, column.type)) : []),
+    [open, getValues, index, column.type]
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={`p-1 rounded transition-colors ${isActive ? 'bg-cyan-500/20 hover:bg-cyan-500/30' : 'hover:bg-slate-800/50'}`}
+          title={isActive ? 'Фильтр включён' : 'Сортировка и фильтр'}
+        >
+          <Icon name="Filter" size={14} className={isActive ? 'text-cyan-400' : 'text-slate-500'} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-slate-900 border-slate-700">
+        <FilterPanel
+          column={column}
+          filter={filter}
+          values={values}
+          onApply={(next) => {
+            onFilterChange(index, next);
+            setOpen(false);
+          }}
+          onSort={(direction) => {
+            onSort(index, direction);
+            setOpen(false);
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ColumnFilterPopover;
@@ -0,0 +1,210 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import Icon from '@/components/ui/icon';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import type { ColumnFilter } from '@/lib/filters';
+import type { ColumnConfig } from '@/lib/sheet';
+import type { SortDirection } from '@/lib/sort';
+import ColumnFilterPopover from './ColumnFilterPopover';
+import { getColumnColor, getColumnIcon } from './column-style';
+
+const DRAG_TYPE = 'application/x-sheet-column';
+
+interface ColumnHeaderProps {
+  column: ColumnConfig;
+  index: number;
+  isSelected: boolean;
+  isEditing: boolean;
+  canDelete: boolean;
+  filter: ColumnFilter | undefined;
+  getValues: (index: number) => string[];
+  onSelect: (index: number, extend: boolean) => void;
+  onEditingChange: (open: boolean) => void;
+  onUpdate: (index: number, field: 'name' | 'type', value: string) => void;
+  onAutoFill: (index: number) => void;
+  onInsert: (at: number) => void;
+  onDelete: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onSort: (index: number, direction: SortDirection) => void;
+  onFilterChange: (index: number, filter: ColumnFilter | null) => void;
+}
+
+const ColumnHeader = ({
+  column,
+  index,
+  isSelected,
+  isEditing,
+  canDelete,
+  filter,
+  getValues,
+  onSelect,
+  onEditingChange,
+  onUpdate,
+  onAutoFill,
+  onInsert,
+  onDelete,
+  onMove,
+  onSort,
+  onFilterChange,
+}: ColumnHeaderProps) => (
+  <th
+    className={`sticky top-0 z-20 border border-slate-700 px-2 py-2 ${isSelected ? 'bg-purple-950' : 'bg-slate-900'}`}
+    draggable
+    onDragStart={(e) => e.dataTransfer.setData(DRAG_TYPE, String(index))}
+    onDragOver={(e) => {
+      if (e.dataTransfer.types.includes(DRAG_TYPE)) e.preventDefault();
+    }}
+    onDrop={(e) => {
+      const from = Number(e.dataTransfer.getData(DRAG_TYPE));
+      if (!Number.isNaN(from)) onMove(from, index);
+    }}
+  >
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div className="flex items-center gap-1">
+          <Dialog open={isEditing} onOpenChange={onEditingChange}>
+            <button
+              onClick={(e) => onSelect(index, e.shiftKey)}
+              className="flex-1 min-w-0 flex items-center justify-center gap-2 hover:bg-slate-800/50 rounded p-2 transition-colors"
+            >
+              <Icon name={getColumnIcon(column.type)} size={16} className={getColumnColor(column.type)} />
+              <span className={`text-sm font-semibold truncate ${getColumnColor(column.type)}`}>
+                {column.name}
+              </span>
+            </button>
+            <ColumnFilterPopover
+              column={column}
+              index={index}
+              filter={filter}
+              getValues={getValues}
+              onFilterChange={onFilterChange}
+              onSort={onSort}
+            />
+            <DialogTrigger asChild>
+              <button
+                className="p-1 rounded hover:bg-slate-800/50 transition-colors"
+                title="Настройка столбца"
+              >
+                <Icon name="Settings2" size={14} className="text-slate-500" />
+              </button>
+            </DialogTrigger>
+            <DialogContent className="bg-slate-900 border-slate-700">
+              <DialogHeader>
+                <DialogTitle className="text-slate-100">Настройка столбца {column.name}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 mt-4">
+                <div>
+                  <label className="text-sm text-slate-400 mb-2 block">Название</label>
+                  <Input
+                    value={column.name}
+                    onChange={(e) => onUpdate(index, 'name', e.target.value)}
+                    className="bg-slate-800 border-slate-700"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-slate-400 mb-2 block">Тип данных</label>
+                  <Select
+                    value={column.type}
+                    onValueChange={(value) => onUpdate(index, 'type', value)}
+                  >
+                    <SelectTrigger className="bg-slate-800 border-slate-700">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-900 border-slate-700">
+                      <SelectItem value="date">
+                        <span className="flex items-center gap-2">
+                          <Icon name="Calendar" size={16} className="text-cyan-400" />
+                          Дата
+                        </span>
+                      </SelectItem>
+                      <SelectItem value="title">
+                        <span className="flex items-center gap-2">
+                          <Icon name="Heading" size={16} className="text-purple-400" />
+                          Название
+                        </span>
+                      </SelectItem>
+                      <SelectItem value="info">
+                        <span className="flex items-center gap-2">
+                          <Icon name="FileText" size={16} className="text-yellow-400" />
+                          Информация
+                        </span>
+                      </SelectItem>
+                      <SelectItem value="text">
+                        <span className="flex items-center gap-2">
+                          <Icon name="Type" size={16} className="text-slate-400" />
+                          Текст
+                        </span>
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="pt-2 border-t border-slate-700">
+                  <Button
+                    onClick={() => {
+                      onAutoFill(index);
+                      onEditingChange(false);
+                    }}
+                    className="w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600"
+                  >
+                    <Icon name="Wand2" size={16} className="mr-2" />
+                    Автозаполнить столбец
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent className="bg-slate-900 border-slate-700">
+        <ContextMenuItem onSelect={() => onSort(index, 'asc')}>
+          <Icon name="ArrowUpNarrowWide" size={16} className="mr-2" />
+          Сортировать по возрастанию
+        </ContextMenuItem>
+        <ContextMenuItem onSelect={() => onSort(index, 'desc')}>
+          <Icon name="ArrowDownWideNarrow" size={16} className="mr-2" />
+          Сортировать по убыванию
+        </ContextMenuItem>
+        <ContextMenuItem disabled={!filter} onSelect={() => onFilterChange(index, null)}>
+          <Icon name="FilterX" size={16} className="mr-2" />
+          Снять фильтр
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        <ContextMenuItem onSelect={() => onInsert(index)}>
+          <Icon name="ArrowLeftToLine" size={16} className="mr-2" />
+          Вставить столбец слева
+        </ContextMenuItem>
+        <ContextMenuItem onSelect={() => onInsert(index + 1)}>
+          <Icon name="ArrowRightToLine" size={16} className="mr-2" />
+          Вставить столбец справа
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        <ContextMenuItem disabled={!canDelete} onSelect={() => onDelete(index)} className="text-red-400">
+          <Icon name="Trash2" size={16} className="mr-2" />
+          Удалить столбец
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  </th>
+);
+
+export default ColumnHeader;
@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import Icon from '@/components/ui/icon';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  applyMapping,
+  IGNORE_COLUMN,
+  loadSavedMapping,
+  NEW_COLUMN,
+  saveMapping,
+  sourceColumns,
+  sourceKey,
+  suggestMapping,
+  type ColumnTarget,
+} from '@/lib/column-mapping';
+import type { ColumnConfig } from '@/lib/sheet';
+
+export type MappedImport = ReturnType<typeof applyMapping>;
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  rows: string[][];
+  hasHeader: boolean;
+  columns: ColumnConfig[];
+  sheetName: string;
+  filledRows: number;
+  onApply: (result: MappedImport) => void;
+  onCancel: () => void;
+}
+
+// Шаг импорта с дозаписью: каждый столбец файла — в столбец листа, в новый столбец или никуда
+const ColumnMappingDialog = ({ fileName, rows, hasHeader, columns, sheetName, filledRows, onApply, onCancel }: ColumnMappingDialogProps) => {
+  const sources = useMemo(() => sourceColumns(rows, hasHeader), [rows, hasHeader]);
+  const key = sourceKey(fileName, sources, hasHeader);
+  const [saved] = useState(() => loadSavedMapping(key, sources, columns));
+  const [mapping, setMapping] = useState<ColumnTarget[]>(() => saved ?? suggestMapping(sources, columns, hasHeader));
+  const [remember, setRemember] = useState(true);
+
+  const duplicates = new Set(
+    mapping.filter((target, i) => target !== NEW_COLUMN && target !== IGNORE_COLUMN && mapping.indexOf(target) !== i)
+  );
+  const imported = mapping.filter(target => target !== IGNORE_COLUMN).length;
+
+  const apply = () => {
+    if (remember) saveMapping(key, sources, columns, mapping);
+    onApply(applyMapping(rows, hasHeader, sources, columns, mapping));
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Сопоставление столбцов</DialogTitle>
+          <DialogDescription>
+            Строки из «{fileName}» добавятся в лист «{sheetName}» после строки {filledRows}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {saved && (
+          <p className="text-sm text-green-400">
+            <Icon name="BookmarkCheck" size={16} className="inline mr-1" />
+            Применено сохранённое сопоставление для этого файла
+          </p>
+        )}
+
+        <div className="max-h-[50vh] overflow-y-auto rounded-lg border border-slate-700">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-slate-900 text-slate-400">
+              <tr>
+                <th className="p-2 text-left font-medium">Столбец файла</th>
+                <th className="p-2 text-left font-medium">Примеры</th>
+                <th className="p-2 text-left font-medium w-64">Куда</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sources.map((source, s) => (
+                <tr key={s} className="border-t border-slate-800 align-top">
+                  <td className="p-2 text-slate-200">{source.name}</td>
+                  <td className="p-2 text-slate-500 max-w-48 truncate" title={source.samples.join(', ')}>
+                    {source.samples.join(', ') || '—'}
+                  </td>
+                  <td className="p-2">
+                    <Select
+                      value={mapping[s]}
+                      onValueChange={(value) => setMapping(prev => prev.map((t, i) => (i === s ? value : t)))}
+                    >
+                      <SelectTrigger className={`bg-slate-800 ${duplicates.has(mapping[s]) ? 'border-orange-500' : 'border-slate-700'}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-900 border-slate-700">
+                        {columns.map(column => (
+                          <SelectItem key={column.id} value={column.id}>{column.name}</SelectItem>
+                        ))}
+                        <SelectSeparator />
+                        <SelectItem value={NEW_COLUMN}>+ Новый столбец «{source.name}»</SelectItem>
+                        <SelectItem value={IGNORE_COLUMN}>Не импортировать</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {duplicates.size > 0 && (
+          <p className="text-sm text-orange-400">
+            Несколько столбцов файла идут в один столбец листа — останется значение последнего.
+          </p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Checkbox id="mapping-remember" checked={remember} onCheckedChange={(checked) => setRemember(checked === true)} />
+          <Label htmlFor="mapping-remember" className="text-sm text-slate-300">
+            Запомнить для следующих файлов с такими столбцами
+          </Label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} className="border-slate-600 hover:bg-slate-700/50">
+            Отмена
+          </Button>
+          <Button onClick={apply} disabled={imported === 0} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+            <Icon name="FileInput" size={16} className="mr-2" />
+            Импортировать
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Icon from '@/components/ui/icon';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { loadCsvOptions, saveCsvOptions, type CsvDelimiter, type CsvEncoding, type CsvOptions } from '@/lib/csv';
+
+interface CsvExportDialogProps {
+  defaultName: string;
+  onExport: (fileName: string, options: CsvOptions) => void;
+}
+
+const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ';', label: 'Точка с запятой — Excel (русский)' },
+  { value: ',', label: 'Запятая — стандарт CSV' },
+  { value: '\t', label: 'Табуляция' },
+];
+
+const ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8 с BOM' },
+  { value: 'windows-1251', label: 'Windows-1251 — старые программы' },
+];
+
+const CsvExportDialog = ({ defaultName, onExport }: CsvExportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState(defaultName);
+  const [options, setOptions] = useState(loadCsvOptions);
+
+  const submit = () => {
+    saveCsvOptions(options);
+    onExport(fileName, options);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setFileName(defaultName);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
+          <Icon name="Download" size={18} className="mr-2 text-green-400" />
+          Экспорт CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Экспорт CSV</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="csv-name" className="text-slate-300">Имя файла</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="csv-name"
+                value={fileName}
+                onChange={(e) => setFileName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && submit()}
+                className="bg-slate-800 border-slate-700"
+              />
+              <span className="text-slate-400">.csv</span>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-slate-300">Разделитель</Label>
+            <Select
+              value={options.delimiter}
+              onValueChange={(value) => setOptions(prev => ({ ...prev, delimiter: value as CsvDelimiter }))}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                {DELIMITERS.map(d => <SelectItem key={d.label} value={d.value}>{d.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-slate-300">Кодировка</Label>
+            <Select
+              value={options.encoding}
+              onValueChange={(value) => setOptions(prev => ({ ...prev, encoding: value as CsvEncoding }))}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                {ENCODINGS.map(e => <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} className="border-slate-600 hover:bg-slate-700/50">
+            Отмена
+          </Button>
+          <Button onClick={submit} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+            Скачать
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvExportDialog;
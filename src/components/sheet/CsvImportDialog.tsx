@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import Icon from '@/components/ui/icon';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ImportPreview from '@/components/sheet/ImportPreview';
+import {
+  decodeCsv,
+  detectEncoding,
+  parseCsv,
+  sniffDelimiter,
+  type CsvDelimiter,
+  type CsvSourceEncoding,
+} from '@/lib/csv';
+import { importSizeError, looksLikeHeader, trimRows } from '@/lib/import';
+
+export type CsvImportMode = 'replace' | 'append';
+
+export interface CsvImport {
+  rows: string[][];
+  hasHeader: boolean;
+  mode: CsvImportMode;
+}
+
+interface CsvImportDialogProps {
+  fileName: string;
+  bytes: Uint8Array;
+  sheetName: string;
+  // Номер строки, после которой допишутся данные; 0 — лист пустой
+  filledRows: number;
+  onImport: (result: CsvImport) => void;
+  onCancel: () => void;
+}
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ';': 'Точка с запятой',
+  ',': 'Запятая',
+  '\t': 'Табуляция',
+};
+
+const ENCODING_LABELS: Record<CsvSourceEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8 с BOM',
+  'windows-1251': 'Windows-1251',
+  'koi8-r': 'KOI8-R',
+};
+
+const CsvImportDialog = ({ fileName, bytes, sheetName, filledRows, onImport, onCancel }: CsvImportDialogProps) => {
+  const [encoding, setEncoding] = useState(() => detectEncoding(bytes));
+  const [delimiter, setDelimiter] = useState(() => sniffDelimiter(decodeCsv(bytes, encoding)));
+  const [headerOverride, setHeaderOverride] = useState<boolean | null>(null);
+  const [mode, setMode] = useState<CsvImportMode>(filledRows > 0 ? 'append' : 'replace');
+
+  const rows = useMemo(() => trimRows(parseCsv(decodeCsv(bytes, encoding), delimiter)), [bytes, encoding, delimiter]);
+  const hasHeader = headerOverride ?? looksLikeHeader(rows);
+  const sizeError = useMemo(() => importSizeError(rows), [rows]);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Импорт «{fileName}»</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label className="text-slate-300">Разделитель</Label>
+            <Select value={delimiter} onValueChange={(value) => setDelimiter(value as CsvDelimiter)}>
+              <SelectTrigger className="bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                  <SelectItem key={label} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-slate-300">Кодировка</Label>
+            <Select value={encoding} onValueChange={(value) => setEncoding(value as CsvSourceEncoding)}>
+              <SelectTrigger className="bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                {Object.entries(ENCODING_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="csv-header" checked={hasHeader} onCheckedChange={setHeaderOverride} />
+          <Label htmlFor="csv-header" className="text-sm text-slate-300">
+            Первая строка — названия столбцов
+          </Label>
+        </div>
+
+        <ImportPreview rows={rows} hasHeader={hasHeader} />
+        {sizeError && <p className="text-sm text-red-400">Файл слишком большой: {sizeError}</p>}
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as CsvImportMode)} className="gap-2">
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="replace" id="csv-replace" />
+            <Label htmlFor="csv-replace" className="text-sm text-slate-300">
+              Заменить содержимое листа «{sheetName}»
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="append" id="csv-append" disabled={filledRows === 0} />
+            <Label htmlFor="csv-append" className={`text-sm ${filledRows === 0 ? 'text-slate-500' : 'text-slate-300'}`}>
+              Добавить после строки {filledRows} — со сопоставлением столбцов
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} className="border-slate-600 hover:bg-slate-700/50">
+            Отмена
+          </Button>
+          <Button
+            onClick={() => onImport({ rows, hasHeader, mode })}
+            disabled={rows.length === 0 || sizeError !== null}
+            className="bg-gradient-to-r from-purple-500 to-cyan-500"
+          >
+            {mode === 'append' ? (
+              <>
+                Далее
+                <Icon name="ArrowRight" size={16} className="ml-2" />
+              </>
+            ) : (
+              <>
+                <Icon name="FileInput" size={16} className="mr-2" />
+                Импортировать
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvImportDialog;
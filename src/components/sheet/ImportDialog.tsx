@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import Icon from '@/components/ui/icon';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ImportPreview from '@/components/sheet/ImportPreview';
+import { looksLikeHeader, type ImportedSheet } from '@/lib/import';
+
+export interface ImportSelection {
+  sheet: ImportedSheet;
+  hasHeader: boolean;
+}
+
+interface ImportDialogProps {
+  fileName: string;
+  sheets: ImportedSheet[];
+  onImport: (selection: ImportSelection[]) => void;
+  // Один лист можно дописать в текущий через сопоставление столбцов
+  onAppend: (selection: ImportSelection) => void;
+  onCancel: () => void;
+}
+
+const ALL_SHEETS = 'all';
+
+const ImportDialog = ({ fileName, sheets, onImport, onAppend, onCancel }: ImportDialogProps) => {
+  const [choice, setChoice] = useState(sheets.length > 1 ? ALL_SHEETS : '0');
+  // null — заголовок определяется для каждого листа автоматически
+  const [headerOverride, setHeaderOverride] = useState<boolean | null>(null);
+
+  const chosen = choice === ALL_SHEETS ? sheets : [sheets[Number(choice)]];
+  const preview = chosen.find(s => s.rows.length > 0) ?? chosen[0];
+  const hasHeader = (sheet: ImportedSheet) => headerOverride ?? looksLikeHeader(sheet.rows);
+  const previewHeader = hasHeader(preview);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Импорт «{fileName}»</DialogTitle>
+          <DialogDescription>
+            Листы добавятся в книгу, таблица вырастет под размер данных. Один лист можно дописать в текущий.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-4">
+          {sheets.length > 1 && (
+            <Select value={choice} onValueChange={setChoice}>
+              <SelectTrigger className="w-60 bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                <SelectItem value={ALL_SHEETS}>Все листы ({sheets.length})</SelectItem>
+                {sheets.map((sheet, i) => (
+                  <SelectItem key={i} value={String(i)}>
+                    {sheet.name} {sheet.rows.length === 0 && '(пустой)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch id="import-header" checked={previewHeader} onCheckedChange={setHeaderOverride} />
+            <Label htmlFor="import-header" className="text-sm text-slate-300">
+              Первая строка — названия столбцов
+            </Label>
+          </div>
+        </div>
+
+        <ImportPreview rows={preview.rows} hasHeader={previewHeader} emptyText={`Лист «${preview.name}» пустой`} />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} className="border-slate-600 hover:bg-slate-700/50">
+            Отмена
+          </Button>
+          {choice !== ALL_SHEETS && preview.rows.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => onAppend({ sheet: preview, hasHeader: previewHeader })}
+              className="border-slate-600 hover:bg-slate-700/50"
+            >
+              Дописать в текущий лист
+              <Icon name="ArrowRight" size={16} className="ml-2" />
+            </Button>
+          )}
+          <Button
+            onClick={() => onImport(chosen.map(sheet => ({ sheet, hasHeader: hasHeader(sheet) })))}
+            className="bg-gradient-to-r from-purple-500 to-cyan-500"
+          >
+            <Icon name="FileInput" size={16} className="mr-2" />
+            Импортировать
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
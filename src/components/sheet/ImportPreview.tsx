@@ -0,0 +1,44 @@
+interface ImportPreviewProps {
+  rows: string[][];
+  hasHeader: boolean;
+  emptyText?: string;
+}
+
+const PREVIEW_ROWS = 6;
+
+// Первые строки импортируемого файла; строка заголовков выделена
+const ImportPreview = ({ rows, hasHeader, emptyText = 'Файл пустой' }: ImportPreviewProps) => {
+  const visible = rows.slice(0, PREVIEW_ROWS);
+  const width = Math.max(1, ...visible.map(r => r.length));
+
+  return (
+    <div className="space-y-1">
+      <div className="overflow-auto max-h-[40vh] rounded-lg border border-slate-700">
+        {rows.length === 0 ? (
+          <p className="p-4 text-sm text-slate-500">{emptyText}</p>
+        ) : (
+          <table className="w-full border-collapse text-sm">
+            <tbody>
+              {visible.map((row, r) => (
+                <tr key={r} className={r === 0 && hasHeader ? 'bg-slate-800 font-semibold text-cyan-300' : 'text-slate-300'}>
+                  {Array.from({ length: width }, (_, c) => (
+                    <td key={c} className="border border-slate-800 px-2 py-1 whitespace-nowrap max-w-48 truncate">
+                      {row[c] ?? ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {rows.length > PREVIEW_ROWS && (
+        <p className="text-xs text-slate-500">
+          Показаны первые {PREVIEW_ROWS} строк из {rows.length}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,48 @@
+import type { ColumnConfig } from '@/lib/sheet';
+import { ROW_NUMBER_WIDTH_PX } from '@/lib/print';
+
+interface PrintTableProps {
+  columns: ColumnConfig[];
+  rows: string[][];
+  // Печатаемые столбцы и их ширины в пикселях
+  group: number[];
+  widths: number[];
+  rowIndexes: number[];
+}
+
+// Таблица для бумаги: чёрные рамки на белом, фиксированные ширины — те же при замере высот и на страницах
+const PrintTable = ({ columns, rows, group, widths, rowIndexes }: PrintTableProps) => (
+  <table
+    className="border-collapse text-[11px] leading-snug text-black"
+    style={{ tableLayout: 'fixed', width: ROW_NUMBER_WIDTH_PX + widths.reduce((sum, w) => sum + w, 0) }}
+  >
+    <colgroup>
+      <col style={{ width: ROW_NUMBER_WIDTH_PX }} />
+      {group.map((c, i) => <col key={columns[c].id} style={{ width: widths[i] }} />)}
+    </colgroup>
+    <thead>
+      <tr className="bg-gray-100">
+        <th className="border border-gray-500 px-1.5 py-1 font-semibold text-gray-600">№</th>
+        {group.map(c => (
+          <th key={columns[c].id} className="border border-gray-500 px-1.5 py-1 text-left font-semibold break-words">
+            {columns[c].name}
+          </th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {rowIndexes.map(r => (
+        <tr key={r}>
+          <td className="border border-gray-500 px-1.5 py-1 text-center align-top text-gray-600">{r + 1}</td>
+          {group.map(c => (
+            <td key={columns[c].id} className="border border-gray-500 px-1.5 py-1 align-top whitespace-pre-wrap break-words">
+              {rows[r][c]}
+            </td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export default PrintTable;
@@ -0,0 +1,82 @@
+import Icon from '@/components/ui/icon';
+import { useGridViewport } from '@/hooks/use-grid-viewport';
+import type { ColumnConfig } from '@/lib/sheet';
+import { getColumnColor, getColumnIcon } from './column-style';
+
+const ROW_HEIGHT = 37;
+const COL_WIDTH = 160;
+const ROW_HEADER_WIDTH = 48;
+
+interface ReadOnlySheetProps {
+  columns: ColumnConfig[];
+  rowCount: number;
+  getValue: (row: number, col: number) => string;
+}
+
+// Таблица без редактирования для просмотра по ссылке. Ссылку может прислать кто угодно,
+// поэтому рисуются только видимые строки и столбцы, а значения читаются по мере прокрутки
+const ReadOnlySheet = ({ columns, rowCount, getValue }: ReadOnlySheetProps) => {
+  const { ref, onScroll, rowStart, rowEnd, colStart, colEnd } = useGridViewport({
+    rowCount,
+    colCount: columns.length,
+    rowHeight: ROW_HEIGHT,
+    colWidth: COL_WIDTH,
+    stickyLeft: ROW_HEADER_WIDTH,
+  });
+  const visibleColumns = columns.slice(colStart, colEnd);
+  const visibleRows = Array.from({ length: Math.max(0, rowEnd - rowStart) }, (_, i) => rowStart + i);
+
+  return (
+    <div ref={ref} onScroll={onScroll} className="overflow-auto max-h-[70vh] rounded-lg border border-slate-700">
+      <table
+        className="table-fixed border-collapse text-sm"
+        style={{ width: ROW_HEADER_WIDTH + columns.length * COL_WIDTH }}
+      >
+        <colgroup>
+          <col style={{ width: ROW_HEADER_WIDTH }} />
+          {colStart > 0 && <col style={{ width: colStart * COL_WIDTH }} />}
+          {visibleColumns.map(column => (
+            <col key={column.id} style={{ width: COL_WIDTH }} />
+          ))}
+          {colEnd < columns.length && <col style={{ width: (columns.length - colEnd) * COL_WIDTH }} />}
+        </colgroup>
+        <thead className="sticky top-0 z-10 bg-slate-900">
+          <tr>
+            <th className="border border-slate-700 p-2 text-slate-500 font-normal">#</th>
+            {colStart > 0 && <th />}
+            {visibleColumns.map(column => (
+              <th key={column.id} className="border border-slate-700 p-2">
+                <span className={`flex items-center justify-center gap-2 font-semibold ${getColumnColor(column.type)}`}>
+                  <Icon name={getColumnIcon(column.type)} size={16} />
+                  <span className="truncate">{column.name}</span>
+                </span>
+              </th>
+            ))}
+            {colEnd < columns.length && <th />}
+          </tr>
+        </thead>
+        <tbody>
+          {rowStart > 0 && <tr style={{ height: rowStart * ROW_HEIGHT }} />}
+          {visibleRows.map(row => (
+            <tr key={row} className="hover:bg-slate-800/30" style={{ height: ROW_HEIGHT }}>
+              <td className="border border-slate-700 px-2 text-center text-slate-500">{row + 1}</td>
+              {colStart > 0 && <td />}
+              {visibleColumns.map((column, i) => {
+                const value = getValue(row, colStart + i);
+                return (
+                  <td key={column.id} title={value} className="border border-slate-700 px-3 text-slate-100 truncate">
+                    {value}
+                  </td>
+                );
+              })}
+              {colEnd < columns.length && <td />}
+            </tr>
+          ))}
+          {rowEnd < rowCount && <tr style={{ height: (rowCount - rowEnd) * ROW_HEIGHT }} />}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ReadOnlySheet;
@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import Icon from '@/components/ui/icon';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { REPORT_FORMATS, type ReportFormat } from '@/lib/report';
+
+interface ReportExportDialogProps {
+  defaultName: string;
+  // Диапазон, если выделено больше одной ячейки
+  selectionLabel: string | null;
+  isFiltered: boolean;
+  buildReport: (format: ReportFormat, onlySelection: boolean) => { content: string; rowCount: number };
+  onDownload: (fileName: string, format: ReportFormat, content: string) => void;
+  onCopy: (format: ReportFormat, content: string) => void;
+}
+
+const FORMAT_HINTS: Record<ReportFormat, string> = {
+  markdown: 'Таблица GitHub — для вики и README',
+  html: 'Страница с оформлением — для браузера и писем',
+  json: 'Массив объектов по названиям столбцов — для скриптов',
+};
+
+const PREVIEW_LENGTH = 4000;
+
+const ReportExportDialog = ({ defaultName, selectionLabel, isFiltered, buildReport, onDownload, onCopy }: ReportExportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState(defaultName);
+  const [format, setFormat] = useState<ReportFormat>('markdown');
+  const [onlySelection, setOnlySelection] = useState(false);
+
+  const report = useMemo(
+    () => (open ? buildReport(format, onlySelection && selectionLabel !== null) : null),
+    [open, buildReport, format, onlySelection, selectionLabel]
+  );
+
+  const download = () => {
+    if (!report) return;
+    onDownload(fileName, format, report.content);
+    setOpen(false);
+  };
+
+  const copy = () => {
+    if (!report) return;
+    onCopy(format, report.content);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) {
+          setFileName(defaultName);
+          setOnlySelection(selectionLabel !== null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
+          <Icon name="FileCode" size={18} className="mr-2 text-purple-400" />
+          Markdown / HTML / JSON
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Экспорт для отчётов</DialogTitle>
+          <DialogDescription>
+            {isFiltered ? 'Выгружаются только строки, прошедшие фильтр. ' : ''}Пустые строки пропускаются.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-slate-300">Формат</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ReportFormat)}>
+              <SelectTrigger className="bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map(f => (
+                  <SelectItem key={f} value={f}>{REPORT_FORMATS[f].label} — {FORMAT_HINTS[f]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <RadioGroup
+            value={onlySelection && selectionLabel ? 'selection' : 'sheet'}
+            onValueChange={(value) => setOnlySelection(value === 'selection')}
+            className="gap-2"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="sheet" id="report-sheet" />
+              <Label htmlFor="report-sheet" className="text-sm text-slate-300">Весь лист</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="selection" id="report-selection" disabled={!selectionLabel} />
+              <Label htmlFor="report-selection" className={`text-sm ${selectionLabel ? 'text-slate-300' : 'text-slate-500'}`}>
+                {selectionLabel ? `Выделенный диапазон ${selectionLabel}` : 'Выделенный диапазон — сначала выделите ячейки'}
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label className="text-slate-300">Предпросмотр · строк: {report?.rowCount ?? 0}</Label>
+            <pre className="max-h-60 overflow-auto rounded-lg border border-slate-700 bg-slate-950 p-3 text-xs text-slate-300 whitespace-pre">
+              {report && (report.content.length > PREVIEW_LENGTH ? `${report.content.slice(0, PREVIEW_LENGTH)}…` : report.content)}
+            </pre>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-name" className="text-slate-300">Имя файла</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="report-name"
+                value={fileName}
+                onChange={(e) => setFileName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && download()}
+                className="bg-slate-800 border-slate-700"
+              />
+              <span className="text-slate-400">{REPORT_FORMATS[format].extension}</span>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} className="border-slate-600 hover:bg-slate-700/50">
+            Отмена
+          </Button>
+          <Button variant="outline" onClick={copy} className="border-slate-600 hover:bg-slate-700/50">
+            <Icon name="Copy" size={16} className="mr-2" />
+            Копировать
+          </Button>
+          <Button onClick={download} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+            <Icon name="Download" size={16} className="mr-2" />
+            Скачать
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportExportDialog;
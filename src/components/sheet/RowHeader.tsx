@@ -0,0 +1,61 @@
+import Icon from '@/components/ui/icon';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+
+const DRAG_TYPE = 'application/x-sheet-row';
+
+interface RowHeaderProps {
+  row: number;
+  isSelected: boolean;
+  canDelete: boolean;
+  onSelect: (row: number, extend: boolean) => void;
+  onInsert: (at: number) => void;
+  onDelete: (row: number) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+const RowHeader = ({ row, isSelected, canDelete, onSelect, onInsert, onDelete, onMove }: RowHeaderProps) => (
+  <ContextMenu>
+    <ContextMenuTrigger asChild>
+      <td
+        className={`sticky left-0 z-10 border border-slate-700 px-4 py-2 text-sm font-semibold cursor-grab ${
+          isSelected ? 'bg-purple-950 text-purple-300' : 'bg-slate-900 text-slate-500'
+        }`}
+        draggable
+        onClick={(e) => onSelect(row, e.shiftKey)}
+        onDragStart={(e) => e.dataTransfer.setData(DRAG_TYPE, String(row))}
+        onDragOver={(e) => {
+          if (e.dataTransfer.types.includes(DRAG_TYPE)) e.preventDefault();
+        }}
+        onDrop={(e) => {
+          const from = Number(e.dataTransfer.getData(DRAG_TYPE));
+          if (!Number.isNaN(from)) onMove(from, row);
+        }}
+      >
+        {row + 1}
+      </td>
+    </ContextMenuTrigger>
+    <ContextMenuContent className="bg-slate-900 border-slate-700">
+      <ContextMenuItem onSelect={() => onInsert(row)}>
+        <Icon name="ArrowUpToLine" size={16} className="mr-2" />
+        Вставить строку выше
+      </ContextMenuItem>
+      <ContextMenuItem onSelect={() => onInsert(row + 1)}>
+        <Icon name="ArrowDownToLine" size={16} className="mr-2" />
+        Вставить строку ниже
+      </ContextMenuItem>
+      <ContextMenuSeparator />
+      <ContextMenuItem disabled={!canDelete} onSelect={() => onDelete(row)} className="text-red-400">
+        <Icon name="Trash2" size={16} className="mr-2" />
+        Удалить строку
+      </ContextMenuItem>
+    </ContextMenuContent>
+  </ContextMenu>
+);
+
+export default RowHeader;
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import Icon from '@/components/ui/icon';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { ColumnType } from '@/lib/sheet';
+import type { CaseMode } from '@/lib/text';
+import { COLUMN_TYPES, getColumnColor, getColumnIcon } from './column-style';
+
+const CASE_MODES: { value: CaseMode; label: string }[] = [
+  { value: 'upper', label: 'ВСЕ ПРОПИСНЫЕ' },
+  { value: 'lower', label: 'все строчные' },
+  { value: 'sentence', label: 'Как в предложении' },
+  { value: 'title', label: 'Каждое Слово С Прописной' },
+];
+
+interface SelectionToolbarProps {
+  label: string;
+  cellCount: number;
+  onClear: () => void;
+  onFill: (value: string) => void;
+  onChangeCase: (mode: CaseMode) => void;
+  onApplyType: (type: ColumnType) => void;
+}
+
+const SelectionToolbar = ({ label, cellCount, onClear, onFill, onChangeCase, onApplyType }: SelectionToolbarProps) => {
+  const [fillValue, setFillValue] = useState('');
+  const [fillOpen, setFillOpen] = useState(false);
+
+  const submitFill = () => {
+    onFill(fillValue);
+    setFillOpen(false);
+    setFillValue('');
+  };
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 p-2 rounded-lg border border-purple-500/30 bg-purple-500/10">
+      <span className="text-sm text-purple-300 font-semibold px-2">
+        {label} <span className="text-slate-400 font-normal">· {cellCount} яч.</span>
+      </span>
+      <Button size="sm" variant="outline" onClick={onClear} className="border-slate-600 hover:bg-slate-700/50">
+        <Icon name="Eraser" size={16} className="mr-2 text-red-400" />
+        Очистить
+      </Button>
+      <Popover open={fillOpen} onOpenChange={setFillOpen}>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="outline" className="border-slate-600 hover:bg-slate-700/50">
+            <Icon name="PaintBucket" size={16} className="mr-2 text-cyan-400" />
+            Заполнить
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="bg-slate-900 border-slate-700 space-y-2">
+          <Input
+            autoFocus
+            value={fillValue}
+            onChange={(e) => setFillValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitFill();
+            }}
+            placeholder="Значение для всех ячеек"
+            className="bg-slate-800 border-slate-700"
+          />
+          <Button size="sm" onClick={submitFill} className="w-full bg-gradient-to-r from-purple-500 to-cyan-500">
+            Заполнить {cellCount} яч.
+          </Button>
+        </PopoverContent>
+      </Popover>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" className="border-slate-600 hover:bg-slate-700/50">
+            <Icon name="CaseSensitive" size={16} className="mr-2 text-yellow-400" />
+            Регистр
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="bg-slate-900 border-slate-700">
+          {CASE_MODES.map(mode => (
+            <DropdownMenuItem key={mode.value} onSelect={() => onChangeCase(mode.value)}>
+              {mode.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" className="border-slate-600 hover:bg-slate-700/50">
+            <Icon name="Shapes" size={16} className="mr-2 text-purple-400" />
+            Тип столбца
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="bg-slate-900 border-slate-700">
+          {COLUMN_TYPES.map(type => (
+            <DropdownMenuItem key={type.value} onSelect={() => onApplyType(type.value)}>
+              <Icon name={getColumnIcon(type.value)} size={16} className={`mr-2 ${getColumnColor(type.value)}`} />
+              {type.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+export default SelectionToolbar;
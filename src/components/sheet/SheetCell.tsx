@@ -0,0 +1,113 @@
+import { memo, useEffect, useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import Icon from '@/components/ui/icon';
+import { useCellValue, useComputedValue } from '@/hooks/use-sheet';
+import type { FormulaEngine } from '@/lib/formula/engine';
+import { formatValue, isError } from '@/lib/formula/evaluate';
+import { isFormula } from '@/lib/formula/parser';
+import type { SheetStore } from '@/lib/sheet';
+import type { CellChange, CellDiff } from '@/lib/snapshots';
+
+// enter — ввод поверх значения (стрелки завершают ввод), edit — правка по F2 (стрелки двигают курсор)
+export type EditMode = 'enter' | 'edit';
+
+// Подсветка сравнения с версией; удалённое значение видно зачёркнутым на месте пустой ячейки
+const CHANGE_STYLES: Record<CellChange, string> = {
+  added: 'bg-green-500/15',
+  changed: 'bg-amber-500/15',
+  removed: 'bg-red-500/15',
+};
+
+interface SheetCellProps {
+  sheet: SheetStore;
+  formulas: FormulaEngine;
+  row: number;
+  col: number;
+  isActive: boolean;
+  inRange: boolean;
+  editMode: EditMode | null;
+  change?: CellDiff;
+  isPending: boolean;
+  onStartEdit: (row: number, col: number) => void;
+  onSelectStart: (row: number, col: number, extend: boolean) => void;
+  onSelectExtend: (row: number, col: number) => void;
+  onChange: (row: number, col: number, value: string) => void;
+}
+
+const SheetCell = memo(({
+  sheet,
+  formulas,
+  row,
+  col,
+  isActive,
+  inRange,
+  editMode,
+  change,
+  isPending,
+  onStartEdit,
+  onSelectStart,
+  onSelectExtend,
+  onChange,
+}: SheetCellProps) => {
+  const value = useCellValue(sheet, row, col);
+  const computed = useComputedValue(formulas, row, col);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Формулу показываем при редактировании, в остальное время — её результат
+  const showResult = !editMode && isFormula(value);
+
+  // Активная ячейка забирает фокус, если он был в таблице (навигация с клавиатуры), но не у других полей
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!isActive || !input) return;
+    const focused = document.activeElement;
+    if (!focused || focused === document.body || focused.closest('[data-sheet-grid]')) {
+      input.focus({ preventScroll: true });
+    }
+  }, [isActive]);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!editMode || !input) return;
+    input.focus({ preventScroll: true });
+    input.setSelectionRange(input.value.length, input.value.length);
+  }, [editMode]);
+
+  return (
+    <td
+      className={`relative border border-slate-700 p-0 ${
+        isActive ? 'ring-2 ring-purple-500 ring-inset' : ''
+      } ${inRange ? 'bg-purple-500/15' : change ? CHANGE_STYLES[change.change] : ''}`}
+      title={change && change.change !== 'added' ? `В версии: ${change.before}` : undefined}
+      onMouseDown={(e) => onSelectStart(row, col, e.shiftKey)}
+      onMouseEnter={() => onSelectExtend(row, col)}
+    >
+      <Input
+        ref={inputRef}
+        value={showResult ? formatValue(computed) : value}
+        title={showResult ? value : undefined}
+        readOnly={!editMode}
+        onChange={(e) => onChange(row, col, e.target.value)}
+        onDoubleClick={() => onStartEdit(row, col)}
+        className={`border-0 rounded-none focus-visible:ring-0 h-10 px-3 bg-transparent ${
+          editMode ? '' : 'cursor-cell caret-transparent'
+        } ${showResult && isError(computed) ? 'text-red-400' : 'text-slate-100'} ${
+          change?.change === 'removed' ? 'placeholder:text-red-300/70 placeholder:line-through' : ''
+        }`}
+        placeholder={change?.change === 'removed' ? change.before : '...'}
+      />
+      {isPending && (
+        <span
+          className="absolute top-1 right-1 flex items-center gap-0.5 rounded bg-orange-500/20 px-1 text-[10px] text-orange-300 pointer-events-none"
+          title="Фото ждёт отправки на распознавание"
+        >
+          <Icon name="CloudUpload" size={10} />
+          ждёт сети
+        </span>
+      )}
+    </td>
+  );
+});
+
+SheetCell.displayName = 'SheetCell';
+
+export default SheetCell;
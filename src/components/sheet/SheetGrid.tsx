@@ -0,0 +1,441 @@
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import Icon from '@/components/ui/icon';
+import { useSheetShape } from '@/hooks/use-sheet';
+import { useGridViewport } from '@/hooks/use-grid-viewport';
+import type { ColumnFilter, SheetFilters } from '@/lib/filters';
+import type { FormulaEngine } from '@/lib/formula/engine';
+import type { ColumnConfig, SheetStore } from '@/lib/sheet';
+import { clampPosition, findDataEdge, lastUsedCell, lastUsedInRow } from '@/lib/navigation';
+import { selectionRange, type CellPosition, type Selection } from '@/lib/selection';
+import type { CellDiff, SheetDiff } from '@/lib/snapshots';
+import type { SortDirection } from '@/lib/sort';
+import SheetCell, { type EditMode } from './SheetCell';
+import ColumnHeader from './ColumnHeader';
+import RowHeader from './RowHeader';
+
+const ROW_HEIGHT = 41;
+const COL_WIDTH = 140;
+const ROW_HEADER_WIDTH = 64;
+const ADD_COL_WIDTH = 48;
+
+const ARROW_DELTAS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+interface EditingCell extends CellPosition {
+  mode: EditMode;
+  // Значение до начала правки — для отмены по Escape
+  original: string;
+}
+
+interface SheetRowProps {
+  sheet: SheetStore;
+  formulas: FormulaEngine;
+  row: number;
+  columns: ColumnConfig[];
+  colStart: number;
+  colEnd: number;
+  activeCol: number | null;
+  rangeLeft: number;
+  rangeRight: number;
+  editMode: EditMode | null;
+  changes: Map<number, CellDiff> | undefined;
+  pendingCols: Set<number> | undefined;
+  canDelete: boolean;
+  onStartEdit: (row: number, col: number) => void;
+  onSelectStart: (row: number, col: number, extend: boolean) => void;
+  onSelectExtend: (row: number, col: number) => void;
+  onSelectRow: (row: number, extend: boolean) => void;
+  onCellChange: (row: number, col: number, value: string) => void;
+  onInsertRow: (at: number) => void;
+  onDeleteRow: (row: number) => void;
+  onMoveRow: (from: number, to: number) => void;
+}
+
+const SheetRow = memo(({
+  sheet,
+  formulas,
+  row,
+  columns,
+  colStart,
+  colEnd,
+  activeCol,
+  rangeLeft,
+  rangeRight,
+  editMode,
+  changes,
+  pendingCols,
+  canDelete,
+  onStartEdit,
+  onSelectStart,
+  onSelectExtend,
+  onSelectRow,
+  onCellChange,
+  onInsertRow,
+  onDeleteRow,
+  onMoveRow,
+}: SheetRowProps) => (
+  <tr className="hover:bg-slate-800/30 transition-colors" style={{ height: ROW_HEIGHT }}>
+    <RowHeader
+      row={row}
+      isSelected={rangeLeft !== -1}
+      canDelete={canDelete}
+      onSelect={onSelectRow}
+      onInsert={onInsertRow}
+      onDelete={onDeleteRow}
+      onMove={onMoveRow}
+    />
+    {colStart > 0 && <td />}
+    {columns.slice(colStart, colEnd).map((col, i) => (
+      <SheetCell
+        key={col.id}
+        sheet={sheet}
+        formulas={formulas}
+        row={row}
+        col={colStart + i}
+        isActive={activeCol === colStart + i}
+        inRange={colStart + i >= rangeLeft && colStart + i <= rangeRight}
+        editMode={activeCol === colStart + i ? editMode : null}
+        change={changes?.get(colStart + i)}
+        isPending={pendingCols?.has(colStart + i) ?? false}
+        onStartEdit={onStartEdit}
+        onSelectStart={onSelectStart}
+        onSelectExtend={onSelectExtend}
+        onChange={onCellChange}
+      />
+    ))}
+    {colEnd < columns.length && <td />}
+    <td className="border border-slate-700" />
+  </tr>
+));
+
+SheetRow.displayName = 'SheetRow';
+
+interface SheetGridProps {
+  sheet: SheetStore;
+  formulas: FormulaEngine;
+  // Строки, оставшиеся после фильтров, по порядку; null — показываются все
+  rows: number[] | null;
+  filters: SheetFilters | undefined;
+  diff: SheetDiff | null;
+  pending: Map<number, Set<number>>;
+  selection: Selection | null;
+  onSelectCell: (row: number, col: number, extend: boolean) => void;
+  onSelectRow: (row: number, extend: boolean) => void;
+  onSelectColumn: (col: number, extend: boolean) => void;
+  onClearSelection: () => void;
+  onCopy: (e: React.ClipboardEvent) => void;
+  onCut: (e: React.ClipboardEvent) => void;
+  onPaste: (e: React.ClipboardEvent) => void;
+  onCellChange: (row: number, col: number, value: string) => void;
+  onUpdateColumn: (index: number, field: 'name' | 'type', value: string) => void;
+  onAutoFillColumn: (index: number) => void;
+  onInsertRow: (at: number) => void;
+  onDeleteRow: (row: number) => void;
+  onMoveRow: (from: number, to: number) => void;
+  onInsertColumn: (at: number) => void;
+  onDeleteColumn: (col: number) => void;
+  onMoveColumn: (from: number, to: number) => void;
+  onSortColumn: (index: number, direction: SortDirection) => void;
+  onFilterColumn: (index: number, filter: ColumnFilter | null) => void;
+}
+
+const SheetGrid = memo(({
+  sheet,
+  formulas,
+  rows,
+  filters,
+  diff,
+  pending,
+  selection,
+  onSelectCell,
+  onSelectRow,
+  onSelectColumn,
+  onClearSelection,
+  onCopy,
+  onCut,
+  onPaste,
+  onCellChange,
+  onUpdateColumn,
+  onAutoFillColumn,
+  onInsertRow,
+  onDeleteRow,
+  onMoveRow,
+  onInsertColumn,
+  onDeleteColumn,
+  onMoveColumn,
+  onSortColumn,
+  onFilterColumn,
+}: SheetGridProps) => {
+  const { rowCount, columns } = useSheetShape(sheet);
+  const [editingColumn, setEditingColumn] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+  const visualRowCount = rows ? rows.length : rowCount;
+  const { ref, onScroll, scrollToCell, rowStart, rowEnd, colStart, colEnd } = useGridViewport({
+    rowCount: visualRowCount,
+    colCount: columns.length,
+    rowHeight: ROW_HEIGHT,
+    colWidth: COL_WIDTH,
+    stickyLeft: ROW_HEADER_WIDTH,
+  });
+
+  const anchor = selection?.anchor;
+  const focus = selection?.focus;
+  const editMode = editing && editing.row === anchor?.row && editing.col === anchor?.col ? editing.mode : null;
+
+  // Правка заканчивается, как только активной становится другая ячейка
+  useEffect(() => {
+    setEditing(prev => (prev && prev.row === anchor?.row && prev.col === anchor?.col ? prev : null));
+  }, [anchor?.row, anchor?.col]);
+
+  // Номер строки на экране: при фильтре скрытые строки пропускаются
+  const visualRow = useCallback((row: number) => {
+    if (!rows) return row;
+    const index = rows.findIndex(r => r >= row);
+    return index === -1 ? rows.length - 1 : index;
+  }, [rows]);
+
+  const stepRow = (row: number, delta: number) => {
+    if (!rows) return row + delta;
+    return rows[Math.min(Math.max(visualRow(row) + delta, 0), rows.length - 1)] ?? row;
+  };
+
+  const focusRow = focus?.row;
+  const focusCol = focus?.col;
+  useEffect(() => {
+    if (focusRow !== undefined && focusCol !== undefined) scrollToCell(visualRow(focusRow), focusCol);
+  }, [focusRow, focusCol, scrollToCell, visualRow]);
+
+  const draggingRef = useRef(false);
+
+  useEffect(() => {
+    const stopDragging = () => {
+      draggingRef.current = false;
+    };
+    window.addEventListener('mouseup', stopDragging);
+    return () => window.removeEventListener('mouseup', stopDragging);
+  }, []);
+
+  const handleSelectStart = useCallback((row: number, col: number, extend: boolean) => {
+    draggingRef.current = true;
+    onSelectCell(row, col, extend);
+  }, [onSelectCell]);
+
+  const handleSelectExtend = useCallback((row: number, col: number) => {
+    if (draggingRef.current) onSelectCell(row, col, true);
+  }, [onSelectCell]);
+
+  const startEdit = useCallback((row: number, col: number, mode: EditMode = 'edit') => {
+    setEditing({ row, col, mode, original: sheet.getValue(row, col) });
+  }, [sheet]);
+
+  const moveTo = (pos: CellPosition, extend: boolean) => {
+    const target = clampPosition(sheet, pos.row, pos.col);
+    onSelectCell(target.row, target.col, extend);
+  };
+
+  // Ввод в редактируемой ячейке: Enter/Tab завершают правку, Escape отменяет
+  const handleEditKeyDown = (e: React.KeyboardEvent, cell: EditingCell) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      if (sheet.getValue(cell.row, cell.col) !== cell.original) onCellChange(cell.row, cell.col, cell.original);
+      setEditing(null);
+      return true;
+    }
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      setEditing(null);
+      const step = e.shiftKey ? -1 : 1;
+      moveTo(e.key === 'Enter' ? { row: stepRow(cell.row, step), col: cell.col } : { row: cell.row, col: cell.col + step }, false);
+      return true;
+    }
+    // В режиме ввода стрелки завершают правку и переходят дальше, в режиме правки — двигают курсор
+    if (ARROW_DELTAS[e.key] && cell.mode === 'enter') {
+      setEditing(null);
+      return false;
+    }
+    // Отмена и повтор внутри поля — штатные, а не история таблицы
+    if (e.ctrlKey || e.metaKey) e.stopPropagation();
+    return true;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!anchor || !focus || !ref.current?.contains(e.target as Node)) return;
+    if (!(e.target instanceof HTMLInputElement)) return;
+
+    if (editMode && editing && handleEditKeyDown(e, editing)) return;
+
+    const ctrl = e.ctrlKey || e.metaKey;
+    const delta = ARROW_DELTAS[e.key];
+    if (delta) {
+      e.preventDefault();
+      const from = e.shiftKey ? focus : anchor;
+      if (ctrl && rows && delta[0] !== 0 && rows.length > 0) {
+        // С фильтром Ctrl+↑/↓ ведут к первой или последней видимой строке
+        moveTo({ row: delta[0] < 0 ? rows[0] : rows[rows.length - 1], col: from.col }, e.shiftKey);
+      } else if (ctrl) {
+        moveTo(findDataEdge(sheet, from, ...delta), e.shiftKey);
+      } else {
+        moveTo({ row: stepRow(from.row, delta[0]), col: from.col + delta[1] }, e.shiftKey);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'Enter':
+      case 'Tab': {
+        e.preventDefault();
+        const step = e.shiftKey ? -1 : 1;
+        moveTo(e.key === 'Enter' ? { row: stepRow(anchor.row, step), col: anchor.col } : { row: anchor.row, col: anchor.col + step }, false);
+        return;
+      }
+      case 'Home':
+        e.preventDefault();
+        moveTo(ctrl ? { row: rows?.[0] ?? 0, col: 0 } : { row: (e.shiftKey ? focus : anchor).row, col: 0 }, e.shiftKey);
+        return;
+      case 'End': {
+        e.preventDefault();
+        const row = (e.shiftKey ? focus : anchor).row;
+        moveTo(ctrl ? lastUsedCell(sheet) : { row, col: lastUsedInRow(sheet, row) }, e.shiftKey);
+        return;
+      }
+      case 'F2':
+        e.preventDefault();
+        startEdit(anchor.row, anchor.col);
+        return;
+      case 'Delete':
+        e.preventDefault();
+        onClearSelection();
+        return;
+      case 'Backspace':
+        e.preventDefault();
+        startEdit(anchor.row, anchor.col, 'enter');
+        onCellChange(anchor.row, anchor.col, '');
+        return;
+    }
+
+    // Печатный символ в режиме навигации заменяет значение ячейки
+    if (e.key.length === 1 && !ctrl && !e.altKey) {
+      e.preventDefault();
+      startEdit(anchor.row, anchor.col, 'enter');
+      onCellChange(anchor.row, anchor.col, e.key);
+    }
+  };
+
+  const getColumnValues = useCallback(
+    (col: number) => Array.from({ length: sheet.getRowCount() }, (_, row) => formulas.getDisplayValue(row, col)),
+    [sheet, formulas]
+  );
+
+  const range = selection && selectionRange(selection);
+  const renderedRows = Array.from({ length: rowEnd - rowStart }, (_, i) => (rows ? rows[rowStart + i] : rowStart + i));
+
+  return (
+    <div
+      ref={ref}
+      data-sheet-grid
+      onScroll={onScroll}
+      onKeyDown={handleKeyDown}
+      onCopy={onCopy}
+      onCut={onCut}
+      onPaste={onPaste}
+      className="border border-slate-700 rounded-lg overflow-auto shadow-xl max-h-[65vh]"
+    >
+      <table
+        className="table-fixed border-collapse bg-slate-950/50"
+        style={{ width: ROW_HEADER_WIDTH + columns.length * COL_WIDTH + ADD_COL_WIDTH }}
+      >
+        <colgroup>
+          <col style={{ width: ROW_HEADER_WIDTH }} />
+          {colStart > 0 && <col style={{ width: colStart * COL_WIDTH }} />}
+          {columns.slice(colStart, colEnd).map(col => (
+            <col key={col.id} style={{ width: COL_WIDTH }} />
+          ))}
+          {colEnd < columns.length && <col style={{ width: (columns.length - colEnd) * COL_WIDTH }} />}
+          <col style={{ width: ADD_COL_WIDTH }} />
+        </colgroup>
+        <thead>
+          <tr>
+            <th className="sticky top-0 left-0 z-30 bg-slate-900 border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-300">#</th>
+            {colStart > 0 && <th className="sticky top-0 z-20 bg-slate-900" />}
+            {columns.slice(colStart, colEnd).map((col, i) => (
+              <ColumnHeader
+                key={col.id}
+                column={col}
+                index={colStart + i}
+                isSelected={!!range && colStart + i >= range.left && colStart + i <= range.right}
+                isEditing={editingColumn === col.id}
+                canDelete={columns.length > 1}
+                filter={filters?.[col.id]}
+                getValues={getColumnValues}
+                onSelect={onSelectColumn}
+                onEditingChange={(open) => setEditingColumn(open ? col.id : null)}
+                onUpdate={onUpdateColumn}
+                onAutoFill={onAutoFillColumn}
+                onInsert={onInsertColumn}
+                onDelete={onDeleteColumn}
+                onMove={onMoveColumn}
+                onSort={onSortColumn}
+                onFilterChange={onFilterColumn}
+              />
+            ))}
+            {colEnd < columns.length && <th className="sticky top-0 z-20 bg-slate-900" />}
+            <th className="sticky top-0 z-20 bg-slate-900 border border-slate-700 px-2 py-2">
+              <button
+                onClick={() => onInsertColumn(columns.length)}
+                className="w-full flex items-center justify-center hover:bg-slate-800/50 rounded p-2 transition-colors"
+                title="Добавить столбец"
+              >
+                <Icon name="Plus" size={16} className="text-slate-400" />
+              </button>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rowStart > 0 && <tr style={{ height: rowStart * ROW_HEIGHT }} />}
+          {renderedRows.map(row => (
+            <SheetRow
+              key={row}
+              sheet={sheet}
+              formulas={formulas}
+              row={row}
+              columns={columns}
+              colStart={colStart}
+              colEnd={colEnd}
+              activeCol={selection?.anchor.row === row ? selection.anchor.col : null}
+              rangeLeft={range && row >= range.top && row <= range.bottom ? range.left : -1}
+              rangeRight={range && row >= range.top && row <= range.bottom ? range.right : -1}
+              editMode={anchor?.row === row ? editMode : null}
+              changes={diff?.get(row)}
+              pendingCols={pending.get(row)}
+              canDelete={rowCount > 1}
+              onStartEdit={startEdit}
+              onSelectStart={handleSelectStart}
+              onSelectExtend={handleSelectExtend}
+              onSelectRow={onSelectRow}
+              onCellChange={onCellChange}
+              onInsertRow={onInsertRow}
+              onDeleteRow={onDeleteRow}
+              onMoveRow={onMoveRow}
+            />
+          ))}
+          {rowEnd < visualRowCount && <tr style={{ height: (visualRowCount - rowEnd) * ROW_HEIGHT }} />}
+          {rows?.length === 0 && (
+            <tr>
+              <td colSpan={columns.length + 2} className="py-8 text-center text-sm text-slate-400">
+                Нет строк, подходящих под фильтр
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+});
+
+SheetGrid.displayName = 'SheetGrid';
+
+export default SheetGrid;
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import Icon from '@/components/ui/icon';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import type { WorkbookSheet } from '@/lib/workbook';
+
+const DRAG_TYPE = 'application/x-sheet-tab';
+
+interface SheetTabsProps {
+  sheets: WorkbookSheet[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+const SheetTabs = ({ sheets, activeId, onSelect, onAdd, onRename, onDuplicate, onDelete, onMove }: SheetTabsProps) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (sheet: WorkbookSheet) => {
+    setRenamingId(sheet.id);
+    setDraftName(sheet.name);
+  };
+
+  const finishRename = () => {
+    if (renamingId) onRename(renamingId, draftName);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="mt-3 flex items-center gap-1 overflow-x-auto border-t border-slate-700 pt-3">
+      {sheets.map((sheet, index) => (
+        <ContextMenu key={sheet.id}>
+          <ContextMenuTrigger asChild>
+            <div
+              draggable={renamingId !== sheet.id}
+              onDragStart={(e) => e.dataTransfer.setData(DRAG_TYPE, String(index))}
+              onDragOver={(e) => {
+                if (e.dataTransfer.types.includes(DRAG_TYPE)) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                const from = Number(e.dataTransfer.getData(DRAG_TYPE));
+                if (!Number.isNaN(from)) onMove(from, index);
+              }}
+              onClick={() => onSelect(sheet.id)}
+              onDoubleClick={() => startRename(sheet)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm whitespace-nowrap cursor-pointer transition-colors ${
+                sheet.id === activeId
+                  ? 'bg-purple-500/20 text-purple-300 border border-purple-500/50'
+                  : 'text-slate-400 border border-transparent hover:bg-slate-800/50'
+              }`}
+            >
+              <Icon name="Sheet" size={14} />
+              {renamingId === sheet.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-28 bg-slate-800 border border-slate-600 rounded px-1 text-slate-100 outline-none"
+                />
+              ) : (
+                <span>{sheet.name}</span>
+              )}
+            </div>
+          </ContextMenuTrigger>
+          <ContextMenuContent className="bg-slate-900 border-slate-700">
+            <ContextMenuItem onSelect={() => startRename(sheet)}>
+              <Icon name="Pencil" size={16} className="mr-2" />
+              Переименовать
+            </ContextMenuItem>
+            <ContextMenuItem onSelect={() => onDuplicate(sheet.id)}>
+              <Icon name="Copy" size={16} className="mr-2" />
+              Дублировать
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+            <ContextMenuItem disabled={sheets.length <= 1} onSelect={() => onDelete(sheet.id)} className="text-red-400">
+              <Icon name="Trash2" size={16} className="mr-2" />
+              Удалить лист
+            </ContextMenuItem>
+          </ContextMenuContent>
+        </ContextMenu>
+      ))}
+      <button
+        onClick={onAdd}
+        className="flex items-center justify-center p-1.5 rounded-md text-slate-400 hover:bg-slate-800/50 transition-colors"
+        title="Добавить лист"
+      >
+        <Icon name="Plus" size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default SheetTabs;
@@ -0,0 +1,93 @@
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { countChanges, formatSnapshotTime, type CellDiff } from '@/lib/snapshots';
+import type { StoredSnapshot } from '@/lib/storage';
+
+interface SnapshotCompareBarProps {
+  snapshot: StoredSnapshot;
+  changes: CellDiff[];
+  selectedChanges: number;
+  onRestoreCells: () => void;
+  onRestoreAll: () => void;
+  onClose: () => void;
+}
+
+const SnapshotCompareBar = ({
+  snapshot,
+  changes,
+  selectedChanges,
+  onRestoreCells,
+  onRestoreAll,
+  onClose,
+}: SnapshotCompareBarProps) => {
+  const { added, changed, removed } = countChanges(changes);
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center justify-between gap-2 p-2 rounded-lg border border-amber-500/30 bg-amber-500/10">
+      <div className="text-sm text-amber-200 px-2 min-w-0">
+        <Icon name="History" size={14} className="inline mr-2" />
+        Сравнение с «{snapshot.name}» от {formatSnapshotTime(snapshot.createdAt)}:
+        {changes.length === 0 ? (
+          <span className="ml-2 text-slate-300">лист не изменился</span>
+        ) : (
+          <>
+            <span className="ml-2 text-green-400" title="Добавлено">+{added}</span>
+            <span className="ml-2 text-amber-400" title="Изменено">~{changed}</span>
+            <span className="ml-2 text-red-400" title="Удалено">−{removed}</span>
+          </>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onRestoreCells}
+          disabled={selectedChanges === 0}
+          className="border-slate-600 hover:bg-slate-700/50"
+          title="Вернуть значения из версии в выделенные ячейки"
+        >
+          <Icon name="Undo2" size={16} className="mr-2 text-amber-400" />
+          Вернуть выделенные{selectedChanges > 0 ? ` (${selectedChanges})` : ''}
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="outline" className="border-slate-600 hover:bg-slate-700/50">
+              <Icon name="RotateCcw" size={16} className="mr-2 text-amber-400" />
+              Восстановить версию
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent className="bg-slate-900 border-slate-700">
+            <AlertDialogHeader>
+              <AlertDialogTitle className="text-slate-100">Восстановить «{snapshot.name}»?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Все листы документа будут заменены содержимым версии. Текущее состояние сохранится отдельной версией.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel className="border-slate-600 hover:bg-slate-700/50">Отмена</AlertDialogCancel>
+              <AlertDialogAction onClick={onRestoreAll} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+                Восстановить
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+        <Button size="sm" variant="ghost" onClick={onClose} className="hover:bg-slate-700/50" title="Закрыть сравнение">
+          <Icon name="X" size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotCompareBar;
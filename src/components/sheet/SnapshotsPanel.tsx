@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import Icon from '@/components/ui/icon';
+import { formatSnapshotTime, SNAPSHOT_KIND_LABELS } from '@/lib/snapshots';
+import type { StoredSnapshot } from '@/lib/storage';
+
+interface SnapshotsPanelProps {
+  snapshots: StoredSnapshot[];
+  comparingId: string | null;
+  onTake: (name: string) => void;
+  onCompare: (id: string | null) => void;
+  onDelete: (id: string) => void;
+}
+
+const SnapshotsPanel = ({ snapshots, comparingId, onTake, onCompare, onDelete }: SnapshotsPanelProps) => {
+  const [name, setName] = useState('');
+
+  const submit = () => {
+    onTake(name.trim() || `Версия от ${formatSnapshotTime(Date.now())}`);
+    setName('');
+  };
+
+  return (
+    <Card className="p-6 shadow-2xl border-slate-700 bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur">
+      <h3 className="font-semibold text-slate-100 mb-4 flex items-center">
+        <Icon name="History" size={18} className="mr-2 text-amber-400" />
+        Версии
+      </h3>
+      <div className="flex gap-2 mb-3">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder="Название версии"
+          className="bg-slate-800 border-slate-700 h-9"
+        />
+        <Button onClick={submit} size="icon" className="shrink-0 h-9 w-9 bg-gradient-to-r from-purple-500 to-cyan-500" title="Сохранить версию">
+          <Icon name="Camera" size={16} />
+        </Button>
+      </div>
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-slate-400 text-center p-3">
+          Версий пока нет. Они также создаются раз в час и перед очисткой
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {snapshots.map(snapshot => {
+            const isComparing = snapshot.id === comparingId;
+            return (
+              <div
+                key={snapshot.id}
+                className={`group flex items-center gap-2 rounded-lg border p-2 ${
+                  isComparing ? 'border-amber-500/50 bg-amber-500/10' : 'border-slate-700 bg-slate-800/50'
+                }`}
+              >
+                <button
+                  onClick={() => onCompare(isComparing ? null : snapshot.id)}
+                  className="flex-1 min-w-0 text-left"
+                  title={isComparing ? 'Закрыть сравнение' : 'Сравнить с текущей таблицей'}
+                >
+                  <p className="text-sm text-slate-100 truncate">{snapshot.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {formatSnapshotTime(snapshot.createdAt)} · {SNAPSHOT_KIND_LABELS[snapshot.kind]}
+                  </p>
+                </button>
+                <button
+                  onClick={() => onDelete(snapshot.id)}
+                  className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-slate-700/50 transition-opacity"
+                  title="Удалить версию"
+                >
+                  <Icon name="X" size={14} className="text-slate-400" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SnapshotsPanel;
@@ -0,0 +1,26 @@
+import type { ColumnType } from '@/lib/sheet';
+
+export const getColumnIcon = (type: ColumnType) => {
+  switch (type) {
+    case 'date': return 'Calendar';
+    case 'title': return 'Heading';
+    case 'info': return 'FileText';
+    default: return 'Type';
+  }
+};
+
+export const getColumnColor = (type: ColumnType) => {
+  switch (type) {
+    case 'date': return 'text-cyan-400';
+    case 'title': return 'text-purple-400';
+    case 'info': return 'text-yellow-400';
+    default: return 'text-slate-400';
+  }
+};
+
+export const COLUMN_TYPES: { value: ColumnType; label: string }[] = [
+  { value: 'date', label: 'Дата' },
+  { value: 'title', label: 'Название' },
+  { value: 'info', label: 'Информация' },
+  { value: 'text', label: 'Текст' },
+];
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import {
+  isQuotaError,
+  loadDocument,
+  requestPersistentStorage,
+  saveDocumentContent,
+  type StoredDocument,
+} from "@/lib/storage"
+import type { WorkbookStore } from "@/lib/workbook"
+
+const SAVE_DELAY_MS = 800
+
+// missing — документа с таким id нет (удалён или ссылка с ошибкой), сохранять некуда
+export type AutosaveStatus = "restoring" | "missing" | "saving" | "saved" | "error"
+export type AutosaveError = "quota" | "unavailable" | "unknown"
+
+interface AutosaveOptions {
+  workbook: WorkbookStore
+  documentId: string
+  onRestored?: (document: StoredDocument) => void
+  onError?: (error: AutosaveError) => void
+}
+
+export function useAutosave({ workbook, documentId, onRestored, onError }: AutosaveOptions) {
+  const [status, setStatus] = useState<AutosaveStatus>("restoring")
+  const [error, setError] = useState<AutosaveError | null>(null)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+  const [isRestored, setIsRestored] = useState(false)
+  const timerRef = useRef<number | null>(null)
+  const errorRef = useRef<AutosaveError | null>(null)
+  const callbacksRef = useRef({ onRestored, onError })
+  callbacksRef.current = { onRestored, onError }
+
+  // О повторяющейся ошибке сообщаем один раз, а не на каждую правку
+  const fail = useCallback((kind: AutosaveError) => {
+    if (errorRef.current !== kind) callbacksRef.current.onError?.(kind)
+    errorRef.current = kind
+    setError(kind)
+    setStatus("error")
+  }, [])
+
+  const save = useCallback(async () => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    setStatus("saving")
+    const { sheets, activeId } = workbook.getState()
+    try {
+      await saveDocumentContent(documentId, {
+        activeIndex: sheets.findIndex(s => s.id === activeId),
+        sheets: workbook.getData(),
+      })
+      setSavedAt(Date.now())
+      errorRef.current = null
+      setError(null)
+      // Пока писали, могли появиться новые правки — они уже ждут своей очереди
+      setStatus(timerRef.current === null ? "saved" : "saving")
+    } catch (e) {
+      console.error("Autosave error:", e)
+      fail(isQuotaError(e) ? "quota" : errorRef.current ?? "unknown")
+    }
+  }, [workbook, documentId, fail])
+
+  // Сначала восстанавливаем документ и только потом начинаем сохранять,
+  // иначе пустая книга успела бы перезаписать сохранённую
+  useEffect(() => {
+    let cancelled = false
+    setIsRestored(false)
+    setStatus("restoring")
+    loadDocument(documentId)
+      .then(document => {
+        if (cancelled) return
+        if (!document || document.sheets.length === 0) {
+          setStatus("missing")
+          return
+        }
+        workbook.replaceSheets(document.sheets, document.activeIndex)
+        callbacksRef.current.onRestored?.(document)
+        setSavedAt(document.updatedAt)
+        setStatus("saved")
+        setIsRestored(true)
+        requestPersistentStorage()
+      })
+      .catch(e => {
+        if (cancelled) return
+        console.error("Restore error:", e)
+        fail("unavailable")
+        setIsRestored(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [workbook, documentId, fail])
+
+  useEffect(() => {
+    if (!isRestored) return
+
+    const schedule = () => {
+      setStatus("saving")
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current)
+      timerRef.current = window.setTimeout(save, SAVE_DELAY_MS)
+    }
+
+    let unsubscribeSheets: (() => void)[] = []
+    const watchSheets = () => {
+      unsubscribeSheets.forEach(unsubscribe => unsubscribe())
+      unsubscribeSheets = workbook.getState().sheets.map(sheet => sheet.store.subscribe(schedule))
+    }
+    watchSheets()
+    const unsubscribeWorkbook = workbook.subscribe(() => {
+      watchSheets()
+      schedule()
+    })
+
+    // Уходя со страницы, не ждём таймера
+    const flush = () => {
+      if (timerRef.current !== null) save()
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush()
+    }
+    window.addEventListener("pagehide", flush)
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      flush()
+      unsubscribeWorkbook()
+      unsubscribeSheets.forEach(unsubscribe => unsubscribe())
+      window.removeEventListener("pagehide", flush)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [isRestored, workbook, save])
+
+  return { status, error, savedAt, retry: save }
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+interface GridViewportOptions {
+  rowCount: number
+  colCount: number
+  rowHeight: number
+  colWidth: number
+  // Ширина закреплённого слева столбца (заголовки строк)
+  stickyLeft?: number
+  overscan?: number
+}
+
+export function useGridViewport({
+  rowCount,
+  colCount,
+  rowHeight,
+  colWidth,
+  stickyLeft = 0,
+  overscan = 4,
+}: GridViewportOptions) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [scroll, setScroll] = useState({ top: 0, left: 0 })
+  const [size, setSize] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) return
+    const observer = new ResizeObserver(() => {
+      setSize({ width: element.clientWidth, height: element.clientHeight })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  const onScroll = useCallback(() => {
+    const element = ref.current
+    if (!element) return
+    setScroll(prev =>
+      prev.top === element.scrollTop && prev.left === element.scrollLeft
+        ? prev
+        : { top: element.scrollTop, left: element.scrollLeft }
+    )
+  }, [])
+
+  // Прокрутить так, чтобы ячейка оказалась целиком видна под закреплёнными заголовками
+  const scrollToCell = useCallback((row: number, col: number) => {
+    const element = ref.current
+    if (!element) return
+    const stickyTop = element.querySelector("thead")?.offsetHeight ?? 0
+    const top = row * rowHeight
+    const left = col * colWidth
+    const viewHeight = element.clientHeight - stickyTop
+    const viewWidth = element.clientWidth - stickyLeft
+
+    if (top < element.scrollTop) element.scrollTop = top
+    else if (top + rowHeight > element.scrollTop + viewHeight) element.scrollTop = top + rowHeight - viewHeight
+    if (left < element.scrollLeft) element.scrollLeft = left
+    else if (left + colWidth > element.scrollLeft + viewWidth) element.scrollLeft = left + colWidth - viewWidth
+  }, [rowHeight, colWidth, stickyLeft])
+
+  const rowStart = Math.max(0, Math.floor(scroll.top / rowHeight) - overscan)
+  const rowEnd = Math.min(rowCount, Math.ceil((scroll.top + size.height) / rowHeight) + overscan)
+  const colStart = Math.max(0, Math.floor(scroll.left / colWidth) - 1)
+  const colEnd = Math.min(colCount, Math.ceil((scroll.left + size.width) / colWidth) + 1)
+
+  return { ref, onScroll, scrollToCell, rowStart, rowEnd, colStart, colEnd }
+}
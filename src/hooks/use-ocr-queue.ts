@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { OcrNetworkError, recognizeImage } from "@/lib/ocr"
+import {
+  listQueuedPhotos,
+  queuePhoto,
+  removeQueuedPhoto,
+  type QueuedPhoto,
+} from "@/lib/storage"
+
+// navigator.onLine бывает оптимистичен: пока очередь не пуста, время от времени пробуем снова
+const RETRY_INTERVAL_MS = 30 * 1000
+
+interface OcrQueueOptions {
+  documentId: string
+  enabled: boolean
+  onRecognized: (photo: QueuedPhoto, text: string) => void
+  onFailed: (photo: QueuedPhoto, message: string) => void
+}
+
+export function useOcrQueue({ documentId, enabled, onRecognized, onFailed }: OcrQueueOptions) {
+  const [pending, setPending] = useState<QueuedPhoto[]>([])
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine)
+  const processingRef = useRef(false)
+  const callbacksRef = useRef({ onRecognized, onFailed })
+  callbacksRef.current = { onRecognized, onFailed }
+
+  // Фото отправляются по одному в порядке съёмки; при сетевой ошибке очередь ждёт следующей попытки
+  const process = useCallback(async () => {
+    if (processingRef.current || !navigator.onLine) return
+    processingRef.current = true
+    try {
+      for (const photo of await listQueuedPhotos(documentId)) {
+        try {
+          callbacksRef.current.onRecognized(photo, await recognizeImage(photo.image))
+        } catch (e) {
+          if (e instanceof OcrNetworkError) break
+          callbacksRef.current.onFailed(photo, e instanceof Error ? e.message : "Не удалось распознать текст")
+        }
+        // Удаляем после вставки: при сбое фото распознается повторно, но не потеряется
+        await removeQueuedPhoto(photo.id)
+        setPending(prev => prev.filter(p => p.id !== photo.id))
+      }
+    } catch (e) {
+      console.error("OCR queue error:", e)
+    } finally {
+      processingRef.current = false
+    }
+  }, [documentId])
+
+  const enqueue = useCallback(async (photo: QueuedPhoto) => {
+    await queuePhoto(photo)
+    setPending(prev => [...prev, photo])
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    listQueuedPhotos(documentId)
+      .then(photos => {
+        if (cancelled) return
+        setPending(photos)
+        if (photos.length > 0) process()
+      })
+      .catch(e => console.error("OCR queue error:", e))
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, documentId, process])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      if (enabled) process()
+    }
+    const handleOffline = () => setIsOnline(false)
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [enabled, process])
+
+  const hasPending = pending.length > 0
+  useEffect(() => {
+    if (!enabled || !hasPending) return
+    const timer = window.setInterval(process, RETRY_INTERVAL_MS)
+    return () => window.clearInterval(timer)
+  }, [enabled, hasPending, process])
+
+  return { pending, isOnline, enqueue, retry: process }
+}
@@ -0,0 +1,107 @@
+import { useCallback } from "react"
+
+import {
+  matrixToCells,
+  matrixToHTML,
+  matrixToTSV,
+  rangeToMatrix,
+  readClipboardMatrix,
+  readClipboardOrigin,
+} from "@/lib/clipboard"
+import { translateFormula } from "@/lib/formula/references"
+import {
+  rangeLabel,
+  rangePositions,
+  selectionRange,
+  type Selection,
+} from "@/lib/selection"
+import type { CellData, SheetStore } from "@/lib/sheet"
+
+// Ячейка в режиме правки — тогда работают обычные копирование и вставка браузера
+const isEditingText = (target: EventTarget) =>
+  target instanceof HTMLInputElement && !target.readOnly
+
+interface SheetClipboardOptions {
+  sheet: SheetStore
+  selection: Selection | null
+  applyCells: (label: string, updates: CellData[]) => void
+  onSelectionChange: (selection: Selection) => void
+  onPasted?: (rows: number, cols: number) => void
+}
+
+export function useSheetClipboard({
+  sheet,
+  selection,
+  applyCells,
+  onSelectionChange,
+  onPasted,
+}: SheetClipboardOptions) {
+  const copySelection = useCallback((e: React.ClipboardEvent, cut: boolean) => {
+    if (!selection || isEditingText(e.target)) return false
+    const range = selectionRange(selection)
+
+    const matrix = rangeToMatrix(sheet, range)
+    e.preventDefault()
+    e.clipboardData.setData("text/plain", matrixToTSV(matrix))
+    e.clipboardData.setData("text/html", matrixToHTML(matrix, { row: range.top, col: range.left, cut }))
+    return true
+  }, [sheet, selection])
+
+  const onCopy = useCallback((e: React.ClipboardEvent) => {
+    copySelection(e, false)
+  }, [copySelection])
+
+  const onCut = useCallback((e: React.ClipboardEvent) => {
+    if (!selection || !copySelection(e, true)) return
+    const range = selectionRange(selection)
+    applyCells(
+      `Вырезать ${rangeLabel(sheet.getColumns(), range)}`,
+      rangePositions(range).map(pos => ({ ...pos, value: "" }))
+    )
+  }, [sheet, selection, copySelection, applyCells])
+
+  const onPaste = useCallback((e: React.ClipboardEvent) => {
+    if (!selection || isEditingText(e.target)) return
+    const range = selectionRange(selection)
+    const matrix = readClipboardMatrix(e.clipboardData)
+    if (matrix.length === 0) return
+
+    e.preventDefault()
+    // Скопированные у нас формулы ссылаются на ячейки относительно нового места, как в Excel
+    const origin = readClipboardOrigin(e.clipboardData)
+    const translate = (value: string, row: number, col: number) =>
+      origin && !origin.cut ? translateFormula(value, row - origin.row, col - origin.col) : value
+
+    const isSingleValue = matrix.length === 1 && matrix[0].length === 1
+    if (isSingleValue) {
+      applyCells(
+        `Вставка → ${rangeLabel(sheet.getColumns(), range)}`,
+        rangePositions(range).map(pos => ({ ...pos, value: translate(matrix[0][0], pos.row, pos.col) }))
+      )
+      return
+    }
+
+    // Без разворота в аргументы Math.max: вставка сотен тысяч строк переполнила бы стек
+    const cols = matrix.reduce((max, row) => Math.max(max, row.length), 0)
+    const pasted = {
+      top: range.top,
+      left: range.left,
+      bottom: range.top + matrix.length - 1,
+      right: range.left + cols - 1,
+    }
+    applyCells(
+      `Вставка → ${rangeLabel(sheet.getColumns(), pasted)}`,
+      matrixToCells(matrix, range.top, range.left).map(cell => ({
+        ...cell,
+        value: translate(cell.value, range.top, range.left),
+      }))
+    )
+    onSelectionChange({
+      anchor: { row: pasted.top, col: pasted.left },
+      focus: { row: pasted.bottom, col: pasted.right },
+    })
+    onPasted?.(matrix.length, cols)
+  }, [sheet, selection, applyCells, onSelectionChange, onPasted])
+
+  return { onCopy, onCut, onPaste }
+}
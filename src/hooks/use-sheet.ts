@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react"
+
+import { filterRows, type SheetFilters } from "@/lib/filters"
+import type { FormulaEngine } from "@/lib/formula/engine"
+import type { History } from "@/lib/history"
+import type { SheetStore } from "@/lib/sheet"
+import type { WorkbookStore } from "@/lib/workbook"
+
+export function useCellValue(sheet: SheetStore, row: number, col: number) {
+  const subscribe = useCallback(
+    (listener: () => void) => sheet.subscribeRow(row, listener),
+    [sheet, row]
+  )
+  return useSyncExternalStore(subscribe, () => sheet.getValue(row, col))
+}
+
+export function useComputedValue(formulas: FormulaEngine, row: number, col: number) {
+  const subscribe = useCallback(
+    (listener: () => void) => formulas.subscribeRow(row, listener),
+    [formulas, row]
+  )
+  return useSyncExternalStore(subscribe, () => formulas.getValue(row, col))
+}
+
+export function useSheetVersion(sheet: SheetStore) {
+  return useSyncExternalStore(sheet.subscribe, sheet.getVersion)
+}
+
+export function useSheetShape(sheet: SheetStore) {
+  return useSyncExternalStore(sheet.subscribe, sheet.getShape)
+}
+
+// Как в Excel, фильтр пересчитывается при смене условий и структуры листа,
+// а не при каждой правке: отредактированная строка не исчезает из-под курсора
+export function useFilteredRows(sheet: SheetStore, formulas: FormulaEngine, filters: SheetFilters | undefined) {
+  const { rowCount, columns } = useSheetShape(sheet)
+  const [rows, setRows] = useState<number[] | null>(null)
+
+  useEffect(() => {
+    const update = () => setRows(filterRows(sheet.getRowCount(), columns, filters, formulas.getDisplayValue))
+    update()
+    return sheet.subscribeChanges(cells => {
+      if (cells === null) update()
+    })
+  }, [sheet, formulas, rowCount, columns, filters])
+
+  return rows
+}
+
+export function useWorkbookState(workbook: WorkbookStore) {
+  return useSyncExternalStore(workbook.subscribe, workbook.getState)
+}
+
+export function useHistoryState(history: History) {
+  return useSyncExternalStore(history.subscribe, history.getState)
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+
+import type { SheetData, SheetStore } from "@/lib/sheet"
+import {
+  createSnapshot,
+  diffSheet,
+  groupDiffByRow,
+  HOURLY_SNAPSHOT_MS,
+  isSameContent,
+  snapshotsToPrune,
+  type CellDiff,
+} from "@/lib/snapshots"
+import {
+  deleteSnapshots,
+  listSnapshots,
+  saveSnapshot,
+  type SnapshotKind,
+} from "@/lib/storage"
+import type { WorkbookStore } from "@/lib/workbook"
+
+// Проверяем чаще, чем раз в час: вкладка могла спать, а таймеры в фоне замедляются
+const HOURLY_CHECK_MS = 5 * 60 * 1000
+
+interface SnapshotsOptions {
+  workbook: WorkbookStore
+  documentId: string
+  enabled: boolean
+}
+
+export function useSnapshots({ workbook, documentId, enabled }: SnapshotsOptions) {
+  const queryClient = useQueryClient()
+  const { data: snapshots = [] } = useQuery({
+    queryKey: ["snapshots", documentId],
+    queryFn: () => listSnapshots(documentId),
+    enabled,
+  })
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ["snapshots", documentId] }),
+    [queryClient, documentId]
+  )
+
+  // Данные берутся синхронно: снимок перед очисткой успевает запомнить лист до неё
+  const take = useCallback(async (name: string, kind: SnapshotKind) => {
+    const { sheets, activeId } = workbook.getState()
+    const snapshot = createSnapshot(documentId, name, kind, workbook.getData(), sheets.findIndex(s => s.id === activeId))
+    try {
+      await saveSnapshot(snapshot)
+      const stale = snapshotsToPrune(await listSnapshots(documentId))
+      if (stale.length > 0) await deleteSnapshots(stale)
+    } finally {
+      refresh()
+    }
+    return snapshot
+  }, [workbook, documentId, refresh])
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteSnapshots([id])
+    } finally {
+      refresh()
+    }
+  }, [refresh])
+
+  // Ежечасная версия появляется, только если с прошлой версии что-то изменилось
+  useEffect(() => {
+    if (!enabled) return
+    const check = async () => {
+      try {
+        const [latest] = await listSnapshots(documentId)
+        if (latest && Date.now() - latest.createdAt < HOURLY_SNAPSHOT_MS) return
+        const data = workbook.getData()
+        if (latest ? isSameContent(latest.sheets, data) : data.every(s => s.cells.every(c => c.value === ""))) return
+        await take("Ежечасная версия", "hourly")
+      } catch (e) {
+        console.error("Hourly snapshot error:", e)
+      }
+    }
+    check()
+    const timer = window.setInterval(check, HOURLY_CHECK_MS)
+    return () => window.clearInterval(timer)
+  }, [enabled, workbook, documentId, take])
+
+  return { snapshots, take, remove }
+}
+
+// Разница между листом из версии и текущим листом, обновляется при каждой правке
+export function useSnapshotDiff(sheet: SheetStore, base: SheetData | null) {
+  const [changes, setChanges] = useState<CellDiff[]>([])
+
+  useEffect(() => {
+    if (!base) {
+      setChanges([])
+      return
+    }
+    const update = () => setChanges(diffSheet(base, sheet.getData()))
+    update()
+    return sheet.subscribeChanges(update)
+  }, [sheet, base])
+
+  const byRow = useMemo(() => (base ? groupDiffByRow(changes) : null), [base, changes])
+  return { changes, byRow }
+}
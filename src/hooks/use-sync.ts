@@ -0,0 +1,86 @@
+import { useCallback, useMemo, useRef, useState } from "react"
+
+import { resolveConflicts, type ConflictChoice } from "@/lib/merge"
+import type { StoredDocument } from "@/lib/storage"
+import {
+  applyMerge,
+  createRestAdapter,
+  getSyncEndpoint,
+  setSyncEndpoint,
+  syncAll,
+  syncDocument,
+  type SyncOutcome,
+} from "@/lib/sync"
+
+export type ConflictOutcome = Extract<SyncOutcome, { status: "conflict" }>
+
+interface SyncOptions {
+  // Документ изменился после слияния или скачивания — открытую книгу нужно перезагрузить
+  onDocumentChanged?: (document: StoredDocument) => void
+}
+
+export function useSync({ onDocumentChanged }: SyncOptions = {}) {
+  const [endpoint, setEndpointState] = useState(getSyncEndpoint)
+  const [isSyncing, setIsSyncing] = useState(false)
+  // Конфликты разбираются по одному документу за раз
+  const [conflicts, setConflicts] = useState<ConflictOutcome[]>([])
+  const callbacksRef = useRef({ onDocumentChanged })
+  callbacksRef.current = { onDocumentChanged }
+  const adapter = useMemo(() => (endpoint ? createRestAdapter(endpoint) : null), [endpoint])
+
+  const updateEndpoint = useCallback((value: string) => {
+    setSyncEndpoint(value)
+    setEndpointState(getSyncEndpoint())
+  }, [])
+
+  const collect = useCallback((outcome: SyncOutcome) => {
+    if (outcome.status === "conflict") setConflicts(prev => [...prev, outcome])
+    else if (outcome.status === "pulled" || outcome.status === "merged") callbacksRef.current.onDocumentChanged?.(outcome.document)
+    return outcome
+  }, [])
+
+  const syncOne = useCallback(async (id: string) => {
+    if (!adapter) return null
+    setIsSyncing(true)
+    try {
+      return collect(await syncDocument(adapter, id))
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [adapter, collect])
+
+  const syncEverything = useCallback(async () => {
+    if (!adapter) return null
+    setIsSyncing(true)
+    try {
+      const report = await syncAll(adapter)
+      report.outcomes.forEach(({ outcome }) => collect(outcome))
+      return report
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [adapter, collect])
+
+  const resolve = useCallback(async (choices: ConflictChoice[]) => {
+    const [conflict, ...rest] = conflicts
+    if (!adapter || !conflict) return
+    const merged = resolveConflicts(conflict.merged, conflict.conflicts, choices)
+    const document = await applyMerge(adapter, conflict.local, conflict.remote, merged)
+    setConflicts(rest)
+    callbacksRef.current.onDocumentChanged?.(document)
+  }, [adapter, conflicts])
+
+  const skip = useCallback(() => setConflicts(prev => prev.slice(1)), [])
+
+  return {
+    endpoint,
+    updateEndpoint,
+    isEnabled: adapter !== null,
+    isSyncing,
+    syncDocument: syncOne,
+    syncAll: syncEverything,
+    conflict: conflicts[0] ?? null,
+    resolve,
+    skip,
+  }
+}
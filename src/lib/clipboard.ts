@@ -0,0 +1,136 @@
+import type { CellData, SheetStore } from './sheet';
+import type { CellPosition, CellRange } from './selection';
+
+const BREAK = '\u0000';
+
+export const rangeToMatrix = (sheet: SheetStore, range: CellRange): string[][] =>
+  Array.from({ length: range.bottom - range.top + 1 }, (_, r) =>
+    Array.from({ length: range.right - range.left + 1 }, (_, c) => sheet.getValue(range.top + r, range.left + c))
+  );
+
+// Excel берёт в кавычки значения с табуляцией, переводом строки или кавычкой
+const quoteTSV = (value: string) =>
+  /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const matrixToTSV = (matrix: string[][]) =>
+  matrix.map(row => row.map(quoteTSV).join('\t')).join('\r\n');
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Откуда скопирован фрагмент нашей таблицы: при вставке формулы сдвигаются на разницу позиций.
+// cut — вырезанные формулы переносятся без сдвига ссылок
+export interface ClipboardOrigin extends CellPosition {
+  cut: boolean;
+}
+
+export const matrixToHTML = (matrix: string[][], origin?: ClipboardOrigin) => {
+  const rows = matrix
+    .map(row => `<tr>${row.map(v => `<td>${escapeHtml(v).replace(/\r?\n/g, '<br>')}</td>`).join('')}</tr>`)
+    .join('');
+  const attrs = origin ? ` data-origin="${origin.row},${origin.col}"${origin.cut ? ' data-cut' : ''}` : '';
+  return `<meta charset="utf-8"><table${attrs}><tbody>${rows}</tbody></table>`;
+};
+
+export const readClipboardOrigin = (data: DataTransfer): ClipboardOrigin | null => {
+  const html = data.getData('text/html');
+  if (!html) return null;
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table[data-origin]');
+  const match = /^(\d+),(\d+)$/.exec(table?.getAttribute('data-origin') ?? '');
+  return match ? { row: Number(match[1]), col: Number(match[2]), cut: table!.hasAttribute('data-cut') } : null;
+};
+
+export const parseTSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') inQuotes = false;
+      else field += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === '\t') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const cellText = (cell: Element) => {
+  const clone = cell.cloneNode(true) as Element;
+  clone.querySelectorAll('br').forEach(br => br.replaceWith(BREAK));
+  return (clone.textContent ?? '')
+    .split(BREAK)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n');
+};
+
+// Таблица из буфера обмена Excel, LibreOffice или Google Таблиц
+export const parseHTMLTable = (html: string): string[][] | null => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const table = doc.querySelector('table');
+  if (!table) return null;
+
+  const matrix: string[][] = [];
+  Array.from(table.rows).forEach((tr, r) => {
+    matrix[r] = matrix[r] ?? [];
+    let c = 0;
+    Array.from(tr.cells).forEach(td => {
+      while (matrix[r][c] !== undefined) c++;
+      const text = cellText(td);
+      const colSpan = Math.max(1, td.colSpan);
+      const rowSpan = Math.max(1, td.rowSpan);
+      for (let dr = 0; dr < rowSpan; dr++) {
+        matrix[r + dr] = matrix[r + dr] ?? [];
+        for (let dc = 0; dc < colSpan; dc++) {
+          matrix[r + dr][c + dc] = dr === 0 && dc === 0 ? text : '';
+        }
+      }
+      c += colSpan;
+    });
+  });
+
+  return matrix.map(row => Array.from(row, v => v ?? ''));
+};
+
+export const readClipboardMatrix = (data: DataTransfer): string[][] => {
+  const html = data.getData('text/html');
+  const fromHtml = html ? parseHTMLTable(html) : null;
+  if (fromHtml && fromHtml.length > 0) return fromHtml;
+  return parseTSV(data.getData('text/plain'));
+};
+
+export const matrixToCells = (matrix: string[][], top: number, left: number): CellData[] =>
+  matrix.flatMap((row, r) => row.map((value, c) => ({ row: top + r, col: left + c, value })));
@@ -0,0 +1,148 @@
+import { detectColumnType } from './import';
+import { columnLabel, createColumn, type CellData, type ColumnConfig, type ColumnType } from './sheet';
+
+// Куда попадает столбец файла: id существующего столбца, новый столбец или никуда
+export const NEW_COLUMN = 'new';
+export const IGNORE_COLUMN = 'ignore';
+export type ColumnTarget = string;
+
+export interface SourceColumn {
+  name: string;
+  type: ColumnType;
+  samples: string[];
+}
+
+// Сохранённое сопоставление ссылается на столбцы по названию: id в каждом документе свои
+interface SavedMapping {
+  targets: Record<string, string>;
+  savedAt: number;
+}
+
+const MAPPINGS_KEY = 'voice-to-excel:import-mappings';
+const MATCH_THRESHOLD = 0.5;
+const TYPE_BONUS = 0.15;
+const SAMPLE_COUNT = 3;
+
+const normalize = (name: string) => name.toLowerCase().replace(/ё/g, 'е').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const bigrams = (text: string) => {
+  const padded = ` ${text} `;
+  return Array.from({ length: padded.length - 1 }, (_, i) => padded.slice(i, i + 2));
+};
+
+// Коэффициент Дайса по парам букв: «Цена, руб» и «Цена» похожи, «Цена» и «Дата» — нет
+export const nameSimilarity = (a: string, b: string) => {
+  const x = normalize(a);
+  const y = normalize(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const left = bigrams(x);
+  const right = bigrams(y);
+  const pool = [...right];
+  let common = 0;
+  left.forEach(pair => {
+    const index = pool.indexOf(pair);
+    if (index !== -1) {
+      common++;
+      pool.splice(index, 1);
+    }
+  });
+  return (2 * common) / (left.length + right.length);
+};
+
+export const sourceColumns = (rows: string[][], hasHeader: boolean): SourceColumn[] => {
+  const [header, body] = hasHeader ? [rows[0] ?? [], rows.slice(1)] : [[], rows];
+  const width = Math.max(0, ...rows.map(r => r.length));
+  return Array.from({ length: width }, (_, c) => {
+    const values = body.map(row => row[c] ?? '');
+    return {
+      name: header[c]?.trim() || columnLabel(c),
+      type: detectColumnType(values),
+      samples: values.filter(v => v.trim() !== '').slice(0, SAMPLE_COUNT),
+    };
+  });
+};
+
+// Жадно: сначала самые похожие пары; каждый столбец листа занимается не больше одного раза.
+// Без заголовка сравнивать нечего — столбцы идут по порядку
+export const suggestMapping = (sources: SourceColumn[], columns: ColumnConfig[], hasHeader: boolean): ColumnTarget[] => {
+  if (!hasHeader) return sources.map((_, c) => columns[c]?.id ?? NEW_COLUMN);
+
+  const pairs = sources.flatMap((source, s) =>
+    columns.map((column, c) => ({
+      s,
+      c,
+      score: nameSimilarity(source.name, column.name) + (source.type === column.type ? TYPE_BONUS : 0),
+    }))
+  ).filter(pair => pair.score >= MATCH_THRESHOLD).sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnTarget[] = sources.map(() => NEW_COLUMN);
+  const used = new Set<number>();
+  const assigned = new Set<number>();
+  pairs.forEach(({ s, c }) => {
+    if (used.has(c) || assigned.has(s)) return;
+    mapping[s] = columns[c].id;
+    used.add(c);
+    assigned.add(s);
+  });
+  return mapping;
+};
+
+// Ключ источника — набор его заголовков: у еженедельного файла поставщика меняется имя, но не столбцы.
+// Без заголовков узнаём файл по имени без цифр (дат и номеров)
+export const sourceKey = (fileName: string, sources: SourceColumn[], hasHeader: boolean) =>
+  hasHeader
+    ? `columns:${sources.map(s => normalize(s.name)).join('|')}`
+    : `file:${normalize(fileName.replace(/\.[^.]+$/, '').replace(/\d+/g, ''))}:${sources.length}`;
+
+const readMappings = (): Record<string, SavedMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPINGS_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// null — для источника ничего не сохранено или столбцы листа с тех пор переименованы
+export const loadSavedMapping = (key: string, sources: SourceColumn[], columns: ColumnConfig[]): ColumnTarget[] | null => {
+  const saved = readMappings()[key];
+  if (!saved) return null;
+  const byName = new Map(columns.map(c => [c.name, c.id]));
+  const mapping = sources.map(source => {
+    const target = saved.targets[source.name];
+    if (target === undefined) return null;
+    if (target === NEW_COLUMN || target === IGNORE_COLUMN) return target;
+    return byName.get(target) ?? null;
+  });
+  return mapping.every((target): target is ColumnTarget => target !== null) ? mapping : null;
+};
+
+export const saveMapping = (key: string, sources: SourceColumn[], columns: ColumnConfig[], mapping: ColumnTarget[]) => {
+  const byId = new Map(columns.map(c => [c.id, c.name]));
+  const targets = Object.fromEntries(sources.map((source, s) => [source.name, byId.get(mapping[s]) ?? mapping[s]]));
+  localStorage.setItem(MAPPINGS_KEY, JSON.stringify({ ...readMappings(), [key]: { targets, savedAt: Date.now() } }));
+};
+
+// Итог сопоставления: столбцы листа (с новыми в конце) и ячейки тела файла, строки считаются от нуля
+export const applyMapping = (
+  rows: string[][],
+  hasHeader: boolean,
+  sources: SourceColumn[],
+  columns: ColumnConfig[],
+  mapping: ColumnTarget[]
+) => {
+  const nextColumns = [...columns];
+  const targetIndex = mapping.map((target, s) => {
+    if (target === IGNORE_COLUMN) return -1;
+    if (target === NEW_COLUMN) {
+      nextColumns.push(createColumn(sources[s].name, sources[s].type));
+      return nextColumns.length - 1;
+    }
+    return columns.findIndex(c => c.id === target);
+  });
+  const body = hasHeader ? rows.slice(1) : rows;
+  const cells: CellData[] = body.flatMap((row, r) =>
+    row.flatMap((value, s) => (value === '' || targetIndex[s] === undefined || targetIndex[s] < 0 ? [] : [{ row: r, col: targetIndex[s], value }]))
+  );
+  return { columns: nextColumns, cells, rowCount: body.length };
+};
@@ -0,0 +1,167 @@
+import { isFormula } from './formula/parser';
+import { shiftReferences } from './formula/references';
+import { trimRows } from './import';
+import { columnLabel, type ColumnConfig } from './sheet';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+export type CsvEncoding = 'utf-8' | 'windows-1251';
+
+export interface CsvOptions {
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+}
+
+const OPTIONS_KEY = 'voice-to-excel:csv-options';
+
+// Excel в русской локали ждёт «;» и открывает UTF-8 без искажений только с BOM
+export const DEFAULT_CSV_OPTIONS: CsvOptions = { delimiter: ';', encoding: 'utf-8' };
+
+export const loadCsvOptions = (): CsvOptions => {
+  try {
+    return { ...DEFAULT_CSV_OPTIONS, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_CSV_OPTIONS;
+  }
+};
+
+export const saveCsvOptions = (options: CsvOptions) => {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+};
+
+// RFC 4180: поле в кавычках, если в нём разделитель, кавычка или перенос строки; кавычки удваиваются.
+// Пробелы по краям тоже прячем в кавычки, иначе часть программ их обрежет
+const csvField = (value: string, delimiter: CsvDelimiter) =>
+  value.includes(delimiter) || /["\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Над данными стоит строка заголовков, поэтому в выгружаемых формулах все ссылки опускаются на строку
+const belowHeader = (value: string) =>
+  isFormula(value) ? shiftReferences(value, { axis: 'row', map: row => row + 1, span: 0 }) : value;
+
+// Пустые строки и столбцы в конце не выгружаем; столбец с переименованным заголовком остаётся, даже если пуст.
+// withFormulas — в rows исходный текст формул, а не вычисленные значения
+export const toCsv = (columns: ColumnConfig[], rows: string[][], delimiter: CsvDelimiter, withFormulas = false) => {
+  const trimmed = trimRows(rows);
+  const body = withFormulas ? trimmed.map(row => row.map(belowHeader)) : trimmed;
+  const dataWidth = body[0]?.length ?? 0;
+  let width = columns.length;
+  while (width > dataWidth && columns[width - 1].name === columnLabel(width - 1)) width--;
+
+  const lines = [columns.slice(0, width).map(c => c.name), ...body].map(row =>
+    Array.from({ length: width }, (_, c) => csvField(row[c] ?? '', delimiter)).join(delimiter)
+  );
+  return lines.join('\r\n') + '\r\n';
+};
+
+let cp1251Table: Map<string, number> | null = null;
+
+// Таблица соответствий собирается из TextDecoder: кодировать в windows-1251 браузер сам не умеет
+const cp1251 = () => {
+  if (!cp1251Table) {
+    const decoder = new TextDecoder('windows-1251');
+    cp1251Table = new Map();
+    for (let byte = 0x80; byte <= 0xff; byte++) {
+      cp1251Table.set(decoder.decode(new Uint8Array([byte])), byte);
+    }
+  }
+  return cp1251Table;
+};
+
+// replaced — сколько символов не нашлось в windows-1251 и записано как «?»
+export const encodeCsv = (text: string, encoding: CsvEncoding) => {
+  if (encoding === 'utf-8') {
+    return { blob: new Blob(['\ufeff', text], { type: 'text/csv;charset=utf-8' }), replaced: 0 };
+  }
+  const table = cp1251();
+  const bytes = new Uint8Array(text.length);
+  let length = 0;
+  let replaced = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    const byte = code < 0x80 ? code : table.get(ch);
+    if (byte === undefined) replaced++;
+    bytes[length++] = byte ?? 0x3f;
+  }
+  return { blob: new Blob([bytes.slice(0, length)], { type: 'text/csv;charset=windows-1251' }), replaced };
+};
+
+// Кодировки, в которых приходят CSV из русскоязычных программ
+export type CsvSourceEncoding = 'utf-8' | 'utf-8-bom' | 'windows-1251' | 'koi8-r';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [';', ',', '\t'];
+export const CSV_SOURCE_ENCODINGS: CsvSourceEncoding[] = ['utf-8', 'utf-8-bom', 'windows-1251', 'koi8-r'];
+
+const SNIFF_LINES = 20;
+// Самые частые строчные буквы русского текста: по ним отличаем windows-1251 от KOI8-R
+const FREQUENT_LETTERS = /[оеаинтсрвл]/g;
+
+// RFC 4180: поля в кавычках могут содержать разделитель, кавычки ("") и переносы строк
+export const parseCsv = (text: string, delimiter: CsvDelimiter, maxRows = Infinity) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  while (i < text.length && rows.length < maxRows) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') quoted = false;
+      else field += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) rows.push([...row, field]);
+  return rows;
+};
+
+// Разделитель — тот, что даёт больше всего столбцов при одинаковом их числе в первых строках
+export const sniffDelimiter = (text: string): CsvDelimiter => {
+  const scored = CSV_DELIMITERS.map(delimiter => {
+    const widths = parseCsv(text, delimiter, SNIFF_LINES)
+      .filter(row => row.some(v => v !== ''))
+      .map(row => row.length);
+    const counts = new Map<number, number>();
+    widths.forEach(w => counts.set(w, (counts.get(w) ?? 0) + 1));
+    const [width, frequency] = Array.from(counts).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [1, 0];
+    return { delimiter, score: width > 1 ? frequency * 1000 + width : 0 };
+  });
+  const best = scored.reduce((a, b) => (b.score > a.score ? b : a));
+  return best.score > 0 ? best.delimiter : DEFAULT_CSV_OPTIONS.delimiter;
+};
+
+// BOM TextDecoder отбрасывает сам
+export const decodeCsv = (bytes: Uint8Array, encoding: CsvSourceEncoding) =>
+  new TextDecoder(encoding === 'utf-8-bom' ? 'utf-8' : encoding).decode(bytes);
+
+// BOM однозначен; корректный UTF-8 почти не встречается случайно; остальное — windows-1251 или KOI8-R
+export const detectEncoding = (bytes: Uint8Array): CsvSourceEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8-bom';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    const score = (encoding: CsvSourceEncoding) => decodeCsv(bytes, encoding).match(FREQUENT_LETTERS)?.length ?? 0;
+    return score('koi8-r') > score('windows-1251') ? 'koi8-r' : 'windows-1251';
+  }
+};
@@ -0,0 +1,61 @@
+import { createEmptySheetData, createId } from './sheet';
+import type { ProjectFile } from './project-file';
+import type { StoredDocument } from './storage';
+
+export const DEFAULT_ROWS = 20;
+export const DEFAULT_COLS = 10;
+
+export const createBlankSheetData = () => createEmptySheetData(DEFAULT_ROWS, DEFAULT_COLS);
+
+export const createBlankDocument = (name: string): StoredDocument => ({
+  id: createId(),
+  name,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  activeIndex: 0,
+  sheets: [{ name: 'Лист 1', ...createBlankSheetData() }],
+});
+
+// Копия — новый документ без истории синхронизации: иначе она считалась бы уже отправленной на сервер
+export const copyDocument = (source: StoredDocument, name: string): StoredDocument => ({
+  ...source,
+  id: createId(),
+  name,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  sync: undefined,
+});
+
+// «Таблица 3» — первый свободный номер среди существующих названий
+export const nextDocumentName = (names: string[], base = 'Таблица') => {
+  const used = new Set(names);
+  let i = names.length + 1;
+  while (used.has(`${base} ${i}`)) i++;
+  return `${base} ${i}`;
+};
+
+export const copyName = (name: string, names: string[]) => {
+  const base = `${name} (копия)`;
+  const used = new Set(names);
+  if (!used.has(base)) return base;
+  let i = 2;
+  while (used.has(`${base} ${i}`)) i++;
+  return `${base} ${i}`;
+};
+
+// Открытый файл проекта становится новым документом и ничего не перезаписывает; синхронизации у него ещё не было.
+// Даты и происхождение берутся из файла: origin указывает на исходный документ и его название
+export const documentFromProject = (project: ProjectFile, names: string[]): StoredDocument => ({
+  id: createId(),
+  name: names.includes(project.name) ? copyName(project.name, names) : project.name || nextDocumentName(names),
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  activeIndex: project.activeIndex,
+  sheets: project.sheets,
+  origin: project.origin ?? {
+    documentId: project.source.documentId,
+    title: project.name,
+    app: project.source.app,
+    appVersion: project.source.appVersion,
+  },
+});
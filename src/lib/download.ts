@@ -0,0 +1,12 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Имя файла из названия документа: символы, запрещённые в Windows, заменяются на «_»
+export const fileNameFor = (name: string, extension: string) =>
+  `${name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'table'}${extension}`;
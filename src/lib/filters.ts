@@ -0,0 +1,53 @@
+import type { ColumnConfig } from './sheet';
+import { parseDateValue, parseNumberValue } from './sort';
+
+// Условия одного столбца объединяются через «и»; незаданное условие не ограничивает
+export interface ColumnFilter {
+  values?: string[];
+  contains?: string;
+  min?: string;
+  max?: string;
+}
+
+// Фильтры листа по id столбца — переживают перестановку столбцов
+export type SheetFilters = Record<string, ColumnFilter>;
+
+export const isFilterActive = (filter: ColumnFilter | undefined): filter is ColumnFilter =>
+  !!filter && (!!filter.values || !!filter.contains?.trim() || !!filter.min?.trim() || !!filter.max?.trim());
+
+export const hasActiveFilters = (filters: SheetFilters | undefined) =>
+  !!filters && Object.values(filters).some(isFilterActive);
+
+const parseBound = (value: string, column: ColumnConfig) =>
+  column.type === 'date' ? parseDateValue(value) : parseNumberValue(value);
+
+export const matchesFilter = (value: string, filter: ColumnFilter, column: ColumnConfig) => {
+  if (filter.values && !filter.values.includes(value)) return false;
+  if (filter.contains?.trim() && !value.toLowerCase().includes(filter.contains.trim().toLowerCase())) return false;
+
+  const min = filter.min?.trim() ? parseBound(filter.min, column) : null;
+  const max = filter.max?.trim() ? parseBound(filter.max, column) : null;
+  if (min === null && max === null) return true;
+  const parsed = parseBound(value, column);
+  if (parsed === null) return false;
+  return (min === null || parsed >= min) && (max === null || parsed <= max);
+};
+
+// Номера строк, прошедших все фильтры, или null, если фильтров нет
+export const filterRows = (
+  rowCount: number,
+  columns: ColumnConfig[],
+  filters: SheetFilters | undefined,
+  getValue: (row: number, col: number) => string
+): number[] | null => {
+  const active = columns
+    .map((column, col) => ({ column, col, filter: filters?.[column.id] }))
+    .filter((f): f is { column: ColumnConfig; col: number; filter: ColumnFilter } => isFilterActive(f.filter));
+  if (active.length === 0) return null;
+
+  const rows: number[] = [];
+  for (let row = 0; row < rowCount; row++) {
+    if (active.every(({ column, col, filter }) => matchesFilter(getValue(row, col), filter, column))) rows.push(row);
+  }
+  return rows;
+};
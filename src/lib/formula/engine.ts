@@ -0,0 +1,176 @@
+import type { SheetData, SheetStore } from '../sheet';
+import { FormulaSyntaxError, isFormula, parseFormula, type FormulaNode } from './parser';
+import {
+  evaluateScalar,
+  formatValue,
+  formulaError,
+  isError,
+  parseCellLiteral,
+  type CellValue,
+  type FormulaError,
+} from './evaluate';
+
+interface RangeDependency {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+type Listener = () => void;
+
+const keyOf = (row: number, col: number) => `${row}:${col}`;
+
+const rowOf = (key: string) => Number(key.slice(0, key.indexOf(':')));
+
+// Вычисление формул листа: значения считаются лениво и кешируются,
+// при правке ячейки сбрасываются только она и зависящие от неё формулы
+export const createFormulaEngine = (sheet: SheetStore) => {
+  const values = new Map<string, CellValue>();
+  const parsed = new Map<string, { source: string; ast: FormulaNode | FormulaError }>();
+  // Ячейка -> формулы, которые ссылаются на неё напрямую
+  const dependents = new Map<string, Set<string>>();
+  // Формула -> ячейки, на которые она ссылается, и её диапазоны
+  const precedents = new Map<string, Set<string>>();
+  const rangeDependents = new Map<string, RangeDependency[]>();
+  const evaluating = new Set<string>();
+  const rowListeners = new Map<number, Set<Listener>>();
+
+  const forgetDependencies = (key: string) => {
+    precedents.get(key)?.forEach(ref => dependents.get(ref)?.delete(key));
+    precedents.delete(key);
+    rangeDependents.delete(key);
+  };
+
+  const getAst = (key: string, source: string) => {
+    const cached = parsed.get(key);
+    if (cached?.source === source) return cached.ast;
+    let ast: FormulaNode | FormulaError;
+    try {
+      ast = parseFormula(source);
+    } catch (e) {
+      if (!(e instanceof FormulaSyntaxError)) throw e;
+      ast = formulaError('#ERROR!');
+    }
+    parsed.set(key, { source, ast });
+    return ast;
+  };
+
+  const getValue = (row: number, col: number): CellValue => {
+    const raw = sheet.getValue(row, col);
+    if (!isFormula(raw)) return parseCellLiteral(raw);
+
+    const key = keyOf(row, col);
+    const cached = values.get(key);
+    if (cached !== undefined) return cached;
+    if (evaluating.has(key)) return formulaError('#CYCLE!');
+
+    forgetDependencies(key);
+    const ast = getAst(key, raw);
+    let value: CellValue;
+    if (isError(ast)) {
+      value = ast;
+    } else {
+      const refs = new Set<string>();
+      const ranges: RangeDependency[] = [];
+      evaluating.add(key);
+      try {
+        value = evaluateScalar(ast, {
+          getCell: (r, c) => {
+            // За границами листа ячеек ещё нет — они пустые, как в Excel
+            if (r >= sheet.getRowCount() || c >= sheet.getColCount()) return '';
+            return getValue(r, c);
+          },
+          onRef: (r, c) => refs.add(keyOf(r, c)),
+          onRange: (top, left, bottom, right) => ranges.push({ top, left, bottom, right }),
+        });
+      } finally {
+        evaluating.delete(key);
+      }
+      precedents.set(key, refs);
+      refs.forEach(ref => {
+        let set = dependents.get(ref);
+        if (!set) {
+          set = new Set();
+          dependents.set(ref, set);
+        }
+        set.add(key);
+      });
+      if (ranges.length > 0) rangeDependents.set(key, ranges);
+    }
+
+    // Внутри цикла значение не кешируем: его досчитает ячейка, с которой начался обход
+    if (evaluating.size === 0 || !isError(value) || value.error !== '#CYCLE!') values.set(key, value);
+    return value;
+  };
+
+  const getDisplayValue = (row: number, col: number) => {
+    const raw = sheet.getValue(row, col);
+    return isFormula(raw) ? formatValue(getValue(row, col)) : raw;
+  };
+
+  const emit = (rows: Iterable<number>) => {
+    for (const row of rows) {
+      rowListeners.get(row)?.forEach(listener => listener());
+    }
+  };
+
+  const reset = () => {
+    values.clear();
+    parsed.clear();
+    dependents.clear();
+    precedents.clear();
+    rangeDependents.clear();
+    emit(Array.from(rowListeners.keys()));
+  };
+
+  const invalidate = (cells: { row: number; col: number }[]) => {
+    const stale = new Set<string>();
+    const queue = cells.map(({ row, col }) => keyOf(row, col));
+
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      if (stale.has(key)) continue;
+      stale.add(key);
+      values.delete(key);
+
+      dependents.get(key)?.forEach(dependent => queue.push(dependent));
+      const [row, col] = key.split(':').map(Number);
+      rangeDependents.forEach((ranges, formula) => {
+        if (ranges.some(r => row >= r.top && row <= r.bottom && col >= r.left && col <= r.right)) {
+          queue.push(formula);
+        }
+      });
+    }
+
+    emit(new Set(Array.from(stale, rowOf)));
+  };
+
+  sheet.subscribeChanges(cells => (cells === null ? reset() : invalidate(cells)));
+
+  const subscribeRow = (row: number, listener: Listener) => {
+    let set = rowListeners.get(row);
+    if (!set) {
+      set = new Set();
+      rowListeners.set(row, set);
+    }
+    set.add(listener);
+    return () => {
+      set!.delete(listener);
+      if (set!.size === 0) rowListeners.delete(row);
+    };
+  };
+
+  // Данные листа с вычисленными значениями вместо формул — для экспорта
+  const getDisplayData = (): SheetData => {
+    const data = sheet.getData();
+    return {
+      ...data,
+      cells: data.cells.map(cell => ({ ...cell, value: getDisplayValue(cell.row, cell.col) })),
+    };
+  };
+
+  return { getValue, getDisplayValue, getDisplayData, subscribeRow };
+};
+
+export type FormulaEngine = ReturnType<typeof createFormulaEngine>;
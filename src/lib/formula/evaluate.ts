@@ -0,0 +1,235 @@
+import type { FormulaNode } from './parser';
+
+export type FormulaErrorCode = '#CYCLE!' | '#REF!' | '#NAME?' | '#VALUE!' | '#DIV/0!' | '#N/A' | '#ERROR!';
+
+export interface FormulaError {
+  error: FormulaErrorCode;
+}
+
+export type CellValue = number | string | boolean | FormulaError;
+
+type RangeValue = CellValue[][];
+type EvalResult = CellValue | RangeValue;
+
+export interface EvalContext {
+  getCell: (row: number, col: number) => CellValue;
+  onRef: (row: number, col: number) => void;
+  onRange: (top: number, left: number, bottom: number, right: number) => void;
+}
+
+export const formulaError = (error: FormulaErrorCode): FormulaError => ({ error });
+
+export const isError = (value: unknown): value is FormulaError =>
+  typeof value === 'object' && value !== null && 'error' in value;
+
+const isRange = (value: EvalResult): value is RangeValue => Array.isArray(value);
+
+// Числа из ячеек: допускаем и точку, и запятую как десятичный разделитель
+const NUMBER_PATTERN = /^-?\d+(?:[.,]\d+)?$/;
+
+export const parseCellLiteral = (raw: string): CellValue => {
+  const trimmed = raw.trim();
+  if (NUMBER_PATTERN.test(trimmed)) return Number(trimmed.replace(',', '.'));
+  return raw;
+};
+
+export const formatValue = (value: CellValue): string => {
+  if (isError(value)) return value.error;
+  if (typeof value === 'number') return Number.isFinite(value) ? String(Number(value.toPrecision(12))) : '#NUM!';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return value;
+};
+
+const toNumber = (value: CellValue): number | FormulaError => {
+  if (isError(value)) return value;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value.trim() === '') return 0;
+  const parsed = parseCellLiteral(value);
+  return typeof parsed === 'number' ? parsed : formulaError('#VALUE!');
+};
+
+const toText = (value: CellValue) => formatValue(value);
+
+const toBoolean = (value: CellValue): boolean | FormulaError => {
+  if (isError(value)) return value;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const upper = value.trim().toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE' || upper === '') return false;
+  return formulaError('#VALUE!');
+};
+
+const scalar = (value: EvalResult): CellValue => (isRange(value) ? formulaError('#VALUE!') : value);
+
+const flatten = (values: EvalResult[]): CellValue[] =>
+  values.flatMap(v => (isRange(v) ? v.flat() : [v]));
+
+const firstError = (values: CellValue[]) => values.find(isError);
+
+// Числовые агрегаты: в диапазонах учитываются только числа, прямые аргументы приводятся к числу
+const numericArgs = (args: EvalResult[]): number[] | FormulaError => {
+  const result: number[] = [];
+  for (const arg of args) {
+    if (isRange(arg)) {
+      for (const value of arg.flat()) {
+        if (isError(value)) return value;
+        if (typeof value === 'number') result.push(value);
+        else if (typeof value === 'string' && value.trim() !== '') {
+          const parsed = parseCellLiteral(value);
+          if (typeof parsed === 'number') result.push(parsed);
+        }
+      }
+    } else {
+      const number = toNumber(arg);
+      if (isError(number)) return number;
+      result.push(number);
+    }
+  }
+  return result;
+};
+
+const formatDate = (date: Date) =>
+  [date.getDate(), date.getMonth() + 1].map(n => String(n).padStart(2, '0')).join('.') + '.' + date.getFullYear();
+
+const compareValues = (a: CellValue, b: CellValue): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return toText(a).localeCompare(toText(b), 'ru', { sensitivity: 'base' });
+};
+
+const vlookup = (args: EvalResult[]): CellValue => {
+  if (args.length < 3 || args.length > 4) return formulaError('#VALUE!');
+  const lookup = scalar(args[0]);
+  const table = args[1];
+  const index = toNumber(scalar(args[2]));
+  if (isError(lookup)) return lookup;
+  if (isError(index)) return index;
+  if (!isRange(table)) return formulaError('#VALUE!');
+  if (index < 1 || index > (table[0]?.length ?? 0)) return formulaError('#REF!');
+
+  const approximate = args.length === 4 ? toBoolean(scalar(args[3])) : true;
+  if (isError(approximate)) return approximate;
+
+  const key = typeof lookup === 'string' ? parseCellLiteral(lookup) : lookup;
+  if (!approximate) {
+    const row = table.find(r => compareValues(typeof r[0] === 'string' ? parseCellLiteral(r[0]) : r[0], key) === 0);
+    return row ? row[index - 1] : formulaError('#N/A');
+  }
+
+  // Приближённый поиск, как в Excel: последняя строка со значением не больше искомого
+  let match: CellValue[] | undefined;
+  for (const row of table) {
+    const value = typeof row[0] === 'string' ? parseCellLiteral(row[0]) : row[0];
+    if (value === '' || compareValues(value, key) > 0) break;
+    match = row;
+  }
+  return match ? match[index - 1] : formulaError('#N/A');
+};
+
+const FUNCTIONS: Record<string, (args: EvalResult[]) => CellValue> = {
+  SUM: args => {
+    const numbers = numericArgs(args);
+    return isError(numbers) ? numbers : numbers.reduce((a, b) => a + b, 0);
+  },
+  AVERAGE: args => {
+    const numbers = numericArgs(args);
+    if (isError(numbers)) return numbers;
+    return numbers.length === 0 ? formulaError('#DIV/0!') : numbers.reduce((a, b) => a + b, 0) / numbers.length;
+  },
+  MIN: args => {
+    const numbers = numericArgs(args);
+    return isError(numbers) ? numbers : numbers.length ? Math.min(...numbers) : 0;
+  },
+  MAX: args => {
+    const numbers = numericArgs(args);
+    return isError(numbers) ? numbers : numbers.length ? Math.max(...numbers) : 0;
+  },
+  COUNT: args =>
+    flatten(args).filter(v => typeof v === 'number' || (typeof v === 'string' && typeof parseCellLiteral(v) === 'number')).length,
+  CONCAT: args => {
+    const values = flatten(args);
+    return firstError(values) ?? values.map(toText).join('');
+  },
+  TODAY: args => (args.length === 0 ? formatDate(new Date()) : formulaError('#VALUE!')),
+  VLOOKUP: vlookup,
+};
+
+const applyBinary = (op: string, left: CellValue, right: CellValue): CellValue => {
+  if (isError(left)) return left;
+  if (isError(right)) return right;
+
+  if (op === '&') return toText(left) + toText(right);
+
+  if (['=', '<>', '<', '>', '<=', '>='].includes(op)) {
+    const cmp = compareValues(
+      typeof left === 'string' ? parseCellLiteral(left) : left,
+      typeof right === 'string' ? parseCellLiteral(right) : right
+    );
+    switch (op) {
+      case '=': return cmp === 0;
+      case '<>': return cmp !== 0;
+      case '<': return cmp < 0;
+      case '>': return cmp > 0;
+      case '<=': return cmp <= 0;
+      default: return cmp >= 0;
+    }
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (isError(a)) return a;
+  if (isError(b)) return b;
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? formulaError('#DIV/0!') : a / b;
+    case '^': return a ** b;
+    default: return formulaError('#ERROR!');
+  }
+};
+
+export const evaluate = (node: FormulaNode, ctx: EvalContext): EvalResult => {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+    case 'error':
+      return formulaError(node.error);
+    case 'ref':
+      ctx.onRef(node.row, node.col);
+      return ctx.getCell(node.row, node.col);
+    case 'range': {
+      ctx.onRange(node.top, node.left, node.bottom, node.right);
+      const rows: RangeValue = [];
+      for (let r = node.top; r <= node.bottom; r++) {
+        const row: CellValue[] = [];
+        for (let c = node.left; c <= node.right; c++) row.push(ctx.getCell(r, c));
+        rows.push(row);
+      }
+      return rows;
+    }
+    case 'unary': {
+      const value = toNumber(scalar(evaluate(node.arg, ctx)));
+      return isError(value) ? value : node.op === '-' ? -value : value;
+    }
+    case 'binary':
+      return applyBinary(node.op, scalar(evaluate(node.left, ctx)), scalar(evaluate(node.right, ctx)));
+    case 'call': {
+      if (node.name === 'IF') {
+        if (node.args.length < 2 || node.args.length > 3) return formulaError('#VALUE!');
+        const condition = toBoolean(scalar(evaluate(node.args[0], ctx)));
+        if (isError(condition)) return condition;
+        const branch = condition ? node.args[1] : node.args[2];
+        return branch ? scalar(evaluate(branch, ctx)) : false;
+      }
+      const fn = FUNCTIONS[node.name];
+      if (!fn) return formulaError('#NAME?');
+      return fn(node.args.map(arg => evaluate(arg, ctx)));
+    }
+  }
+};
+
+export const evaluateScalar = (node: FormulaNode, ctx: EvalContext): CellValue => scalar(evaluate(node, ctx));
@@ -0,0 +1,242 @@
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'ref'; row: number; col: number }
+  | { type: 'range'; top: number; left: number; bottom: number; right: number }
+  | { type: 'error'; error: '#REF!' }
+  | { type: 'unary'; op: '-' | '+'; arg: FormulaNode }
+  | { type: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+type TokenType = 'number' | 'string' | 'ref' | 'name' | 'error' | 'op' | 'lparen' | 'rparen' | 'sep' | 'colon';
+
+// start и end — границы токена в исходном тексте, чтобы переписывать формулу без потери пробелов
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export class FormulaSyntaxError extends Error {}
+
+// Строк с номером 0 нет: A0 — не ссылка, а неизвестное имя
+const REF_PATTERN = /^\$?[A-Za-z]{1,3}\$?0*[1-9]\d*$/;
+// Ссылка на удалённую строку или столбец
+export const REF_ERROR = '#REF!';
+const OPERATORS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '&', '=', '<', '>'];
+
+export const isFormula = (value: string) => value.startsWith('=') && value.length > 1;
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  const push = (type: TokenType, text: string, length = text.length) => {
+    tokens.push({ type, text, start: i, end: i + length });
+    i += length;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      let text = '';
+      let end = i + 1;
+      while (end < source.length) {
+        if (source[end] === '"' && source[end + 1] === '"') {
+          text += '"';
+          end += 2;
+        } else if (source[end] === '"') {
+          break;
+        } else {
+          text += source[end++];
+        }
+      }
+      if (source[end] !== '"') throw new FormulaSyntaxError('Незакрытая строка');
+      push('string', text, end + 1 - i);
+      continue;
+    }
+    if (source.startsWith(REF_ERROR, i)) {
+      push('error', REF_ERROR);
+      continue;
+    }
+    const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) {
+      push('number', number[0]);
+      continue;
+    }
+    const word = /^\$?[A-Za-z_][A-Za-z0-9_.]*\$?\d*/.exec(source.slice(i));
+    if (word) {
+      const text = word[0];
+      // LOG10( — функция, а не ячейка LOG10: за ссылкой скобка не идёт
+      const isCall = /^\s*\(/.test(source.slice(i + text.length));
+      push(REF_PATTERN.test(text) && !isCall ? 'ref' : 'name', text);
+      continue;
+    }
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (op) {
+      push('op', op);
+      continue;
+    }
+    if (ch === '(') push('lparen', ch);
+    else if (ch === ')') push('rparen', ch);
+    else if (ch === ',' || ch === ';') push('sep', ch);
+    else if (ch === ':') push('colon', ch);
+    else throw new FormulaSyntaxError(`Неожиданный символ «${ch}»`);
+  }
+
+  return tokens;
+};
+
+// A1 -> { row: 0, col: 0 }; $ закрепляет столбец или строку при копировании формулы
+export const parseRef = (text: string) => {
+  const match = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)$/.exec(text);
+  if (!match) return null;
+  const col = match[2].toUpperCase().split('').reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+  const row = Number(match[4]) - 1;
+  return row >= 0 ? { row, col, absoluteCol: match[1] === '$', absoluteRow: match[3] === '$' } : null;
+};
+
+// { row: 0, col: 27 } -> AB1
+export const formatRef = (row: number, col: number, absoluteCol = false, absoluteRow = false) => {
+  let letters = '';
+  for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return `${absoluteCol ? '$' : ''}${letters}${absoluteRow ? '$' : ''}${row + 1}`;
+};
+
+const COMPARISON = ['=', '<>', '<', '>', '<=', '>='];
+
+export const parseFormula = (formula: string): FormulaNode => {
+  const tokens = tokenize(formula.replace(/^=/, ''));
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (type: TokenType) => {
+    const token = next();
+    if (!token || token.type !== type) throw new FormulaSyntaxError('Ошибка в формуле');
+    return token;
+  };
+
+  const binaryLevel = (ops: string[], operand: () => FormulaNode) => (): FormulaNode => {
+    let left = operand();
+    while (peek()?.type === 'op' && ops.includes(peek().text)) {
+      const op = next().text;
+      left = { type: 'binary', op, left, right: operand() };
+    }
+    return left;
+  };
+
+  const primary = (): FormulaNode => {
+    const token = next();
+    if (!token) throw new FormulaSyntaxError('Неожиданный конец формулы');
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: Number(token.text) };
+      case 'string':
+        return { type: 'string', value: token.text };
+      case 'error':
+        return { type: 'error', error: REF_ERROR };
+      case 'lparen': {
+        const inner = expression();
+        expect('rparen');
+        return inner;
+      }
+      case 'ref': {
+        const start = parseRef(token.text);
+        if (!start) throw new FormulaSyntaxError(`Неверная ссылка ${token.text}`);
+        if (peek()?.type === 'colon') {
+          next();
+          const end = parseRef(expect('ref').text);
+          if (!end) throw new FormulaSyntaxError('Неверный диапазон');
+          return {
+            type: 'range',
+            top: Math.min(start.row, end.row),
+            left: Math.min(start.col, end.col),
+            bottom: Math.max(start.row, end.row),
+            right: Math.max(start.col, end.col),
+          };
+        }
+        return { type: 'ref', row: start.row, col: start.col };
+      }
+      case 'name': {
+        const name = token.text.toUpperCase();
+        if (peek()?.type !== 'lparen') {
+          if (name === 'TRUE' || name === 'FALSE') return { type: 'boolean', value: name === 'TRUE' };
+          throw new FormulaSyntaxError(`Неизвестное имя ${token.text}`);
+        }
+        next();
+        const args: FormulaNode[] = [];
+        if (peek()?.type !== 'rparen') {
+          args.push(expression());
+          while (peek()?.type === 'sep') {
+            next();
+            args.push(expression());
+          }
+        }
+        expect('rparen');
+        return { type: 'call', name, args };
+      }
+      case 'op':
+        if (token.text === '-' || token.text === '+') {
+          return { type: 'unary', op: token.text, arg: power() };
+        }
+        break;
+    }
+    throw new FormulaSyntaxError('Ошибка в формуле');
+  };
+
+  const power = binaryLevel(['^'], primary);
+  const term = binaryLevel(['*', '/'], power);
+  const additive = binaryLevel(['+', '-'], term);
+  const concat = binaryLevel(['&'], additive);
+  const expression = binaryLevel(COMPARISON, concat);
+
+  const ast = expression();
+  if (pos < tokens.length) throw new FormulaSyntaxError('Лишние символы в формуле');
+  return ast;
+};
+
+// =SUM(A1:B2) -> SUM(A2:B3) для .xlsx: без «=», разделители аргументов приводятся к запятой.
+// rowOffset сдвигает ссылки, если над данными в файле есть строка заголовков
+export const toA1 = (formula: string, rowOffset = 0) => {
+  const tokens = tokenize(formula.replace(/^=/, ''));
+  return tokens.map(token => {
+    switch (token.type) {
+      case 'ref': return token.text.toUpperCase().replace(/\d+$/, row => String(Number(row) + rowOffset));
+      case 'string': return `"${token.text.replace(/"/g, '""')}"`;
+      case 'sep': return ',';
+      default: return token.text;
+    }
+  }).join('');
+};
+
+// =SUM(A1:B2) -> of:=SUM([.A2:.B3]) для .ods (OpenFormula): ссылки в квадратных скобках, аргументы через «;»
+export const toOpenFormula = (formula: string, rowOffset = 0) => {
+  const tokens = tokenize(formula.replace(/^=/, ''));
+  const shift = (ref: string) => `.${ref.toUpperCase().replace(/\d+$/, row => String(Number(row) + rowOffset))}`;
+  let result = '';
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'ref' && tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'ref') {
+      result += `[${shift(token.text)}:${shift(tokens[i + 2].text)}]`;
+      i += 2;
+    } else if (token.type === 'ref') {
+      result += `[${shift(token.text)}]`;
+    } else if (token.type === 'string') {
+      result += `"${token.text.replace(/"/g, '""')}"`;
+    } else if (token.type === 'sep') {
+      result += ';';
+    } else {
+      result += token.text;
+    }
+  }
+  return `of:=${result}`;
+};
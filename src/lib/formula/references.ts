@@ -0,0 +1,106 @@
+import { FormulaSyntaxError, formatRef, isFormula, parseRef, REF_ERROR, tokenize } from './parser';
+
+// Новое место строки или столбца после структурной правки; null — удалён
+export type IndexMap = (index: number) => number | null;
+
+export interface AxisChange {
+  axis: 'row' | 'col';
+  map: IndexMap;
+  // Начиная с span все индексы сдвигаются на одно и то же число — диапазон за этой границей проверяем по краям
+  span: number;
+}
+
+type Ref = NonNullable<ReturnType<typeof parseRef>>;
+
+// Диапазон после правки — охват всех его уцелевших строк (столбцов): вставка внутри расширяет его,
+// удаление сужает, сортировка внутри оставляет как был. Если не уцелело ничего — null
+const mapSpan = (from: number, to: number, { map, span }: AxisChange) => {
+  let min = Infinity;
+  let max = -Infinity;
+  const include = (index: number) => {
+    const target = map(index);
+    if (target === null) return;
+    min = Math.min(min, target);
+    max = Math.max(max, target);
+  };
+  for (let i = from; i <= Math.min(to, span - 1); i++) include(i);
+  if (to >= span) {
+    include(Math.max(from, span));
+    include(to);
+  }
+  return min === Infinity ? null : { from: min, to: max };
+};
+
+// Переписывает ссылки формулы, не трогая остальной текст; ссылка, которую нельзя пересчитать, становится #REF!
+const rewriteRefs = (
+  formula: string,
+  rewriteRef: (ref: Ref) => Ref | null,
+  rewriteRange: (start: Ref, end: Ref) => [Ref, Ref] | null
+) => {
+  let tokens;
+  try {
+    tokens = tokenize(formula);
+  } catch (e) {
+    // Формулу с ошибкой оставляем как есть — её покажут как #ERROR!
+    if (e instanceof FormulaSyntaxError) return formula;
+    throw e;
+  }
+  const format = (ref: Ref) => formatRef(ref.row, ref.col, ref.absoluteCol, ref.absoluteRow);
+  let result = '';
+  let last = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const start = token.type === 'ref' ? parseRef(token.text) : null;
+    // Ссылку, которую не разобрать, не трогаем — формулу покажут с ошибкой
+    if (!start) continue;
+    const rangeEnd = tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'ref' ? parseRef(tokens[i + 2].text) : null;
+    let end = token.end;
+    let text: string;
+    if (rangeEnd) {
+      const range = rewriteRange(start, rangeEnd);
+      text = range ? `${format(range[0])}:${format(range[1])}` : REF_ERROR;
+      end = tokens[i + 2].end;
+      i += 2;
+    } else {
+      const ref = rewriteRef(start);
+      text = ref ? format(ref) : REF_ERROR;
+    }
+    result += formula.slice(last, token.start) + text;
+    last = end;
+  }
+  return last === 0 ? formula : result + formula.slice(last);
+};
+
+// Ссылки после вставки, удаления или переноса строк (столбцов) указывают на те же данные
+export const shiftReferences = (formula: string, change: AxisChange) => {
+  if (!isFormula(formula)) return formula;
+  const key = change.axis === 'row' ? 'row' : 'col';
+  return rewriteRefs(
+    formula,
+    ref => {
+      const target = change.map(ref[key]);
+      return target === null ? null : { ...ref, [key]: target };
+    },
+    (start, end) => {
+      const [first, second] = start[key] <= end[key] ? [start, end] : [end, start];
+      const span = mapSpan(first[key], second[key], change);
+      return span && [{ ...first, [key]: span.from }, { ...second, [key]: span.to }];
+    }
+  );
+};
+
+// Формула, скопированная на rows строк и cols столбцов в сторону: относительные ссылки едут вместе с ней,
+// закреплённые через $ — остаются. Ссылка, ушедшая за край листа, становится #REF!
+export const translateFormula = (formula: string, rows: number, cols: number) => {
+  if (!isFormula(formula) || (rows === 0 && cols === 0)) return formula;
+  const move = (ref: Ref): Ref | null => {
+    const row = ref.absoluteRow ? ref.row : ref.row + rows;
+    const col = ref.absoluteCol ? ref.col : ref.col + cols;
+    return row < 0 || col < 0 ? null : { ...ref, row, col };
+  };
+  return rewriteRefs(formula, move, (start, end) => {
+    const first = move(start);
+    const second = move(end);
+    return first && second ? [first, second] : null;
+  });
+};
@@ -0,0 +1,164 @@
+import type { CellData, ColumnConfig, SheetData, SheetShape, SheetStore } from './sheet';
+
+export interface Command {
+  label: string;
+  sheetId: string;
+  // Команды с одинаковым ключом, идущие подряд, объединяются (ввод в одну ячейку)
+  mergeKey?: string;
+  redo: () => void;
+  undo: () => void;
+}
+
+export interface HistoryState {
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+type Listener = () => void;
+
+const MERGE_WINDOW_MS = 1500;
+
+export const createHistory = (limit = 200) => {
+  let undoStack: (Command & { time: number })[] = [];
+  let redoStack: Command[] = [];
+  let state: HistoryState = { undoLabel: null, redoLabel: null };
+  const listeners = new Set<Listener>();
+
+  const update = () => {
+    state = {
+      undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+      redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+    };
+    listeners.forEach(listener => listener());
+  };
+
+  const execute = (command: Command | null) => {
+    if (!command) return;
+    command.redo();
+
+    const top = undoStack[undoStack.length - 1];
+    const now = Date.now();
+    const canMerge = top && command.mergeKey && top.mergeKey === command.mergeKey
+      && top.sheetId === command.sheetId && now - top.time < MERGE_WINDOW_MS;
+    if (canMerge) {
+      undoStack[undoStack.length - 1] = { ...command, undo: top.undo, time: now };
+    } else {
+      undoStack = [...undoStack, { ...command, time: now }].slice(-limit);
+    }
+    redoStack = [];
+    update();
+  };
+
+  const undo = () => {
+    const command = undoStack[undoStack.length - 1];
+    if (!command) return null;
+    command.undo();
+    undoStack = undoStack.slice(0, -1);
+    redoStack = [...redoStack, command];
+    update();
+    return command;
+  };
+
+  const redo = () => {
+    const command = redoStack[redoStack.length - 1];
+    if (!command) return null;
+    command.redo();
+    redoStack = redoStack.slice(0, -1);
+    undoStack = [...undoStack, { ...command, time: 0 }];
+    update();
+    return command;
+  };
+
+  const clear = () => {
+    undoStack = [];
+    redoStack = [];
+    update();
+  };
+
+  // Команды удалённого листа больше не к чему применять
+  const forgetSheet = (sheetId: string) => {
+    undoStack = undoStack.filter(c => c.sheetId !== sheetId);
+    redoStack = redoStack.filter(c => c.sheetId !== sheetId);
+    update();
+  };
+
+  const subscribe = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { execute, undo, redo, clear, forgetSheet, subscribe, getState: () => state };
+};
+
+export type History = ReturnType<typeof createHistory>;
+
+export const cellsCommand = (
+  label: string,
+  sheetId: string,
+  sheet: SheetStore,
+  updates: CellData[],
+  mergeKey?: string
+): Command | null => {
+  const before = updates.map(u => ({ ...u, value: sheet.getValue(u.row, u.col) }));
+  if (updates.every((u, i) => before[i].value === u.value)) return null;
+  // Ввод за краем листа добавляет строки и столбцы: отмена их убирает, повтор возвращает те же столбцы
+  const shape = sheet.getShape();
+  let grown: SheetShape | null = null;
+  return {
+    label,
+    sheetId,
+    mergeKey,
+    redo: () => {
+      if (grown && grown !== sheet.getShape()) sheet.resize(grown);
+      sheet.setValues(updates);
+      grown = sheet.getShape();
+    },
+    undo: () => {
+      sheet.setValues([...before].reverse());
+      if (sheet.getShape() !== shape) sheet.resize(shape);
+    },
+  };
+};
+
+export const columnsCommand = (
+  label: string,
+  sheetId: string,
+  sheet: SheetStore,
+  columns: ColumnConfig[],
+  mergeKey?: string
+): Command => {
+  const before = sheet.getColumns();
+  return {
+    label,
+    sheetId,
+    mergeKey,
+    redo: () => sheet.setColumns(columns),
+    undo: () => sheet.setColumns(before),
+  };
+};
+
+// Структурные операции (строки, столбцы, очистка листа) откатываются по снимку данных листа
+export const structureCommand = (
+  label: string,
+  sheetId: string,
+  sheet: SheetStore,
+  mutate: () => void
+): Command => {
+  const before = sheet.getData();
+  let after: SheetData | null = null;
+  return {
+    label,
+    sheetId,
+    redo: () => {
+      if (after) {
+        sheet.load(after);
+      } else {
+        mutate();
+        after = sheet.getData();
+      }
+    },
+    undo: () => sheet.load(before),
+  };
+};
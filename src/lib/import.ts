@@ -0,0 +1,81 @@
+import { DEFAULT_ROWS } from './documents';
+import { MAX_COLUMNS, MAX_ROWS } from './project-file';
+import { columnLabel, createColumn, type ColumnType, type SheetData } from './sheet';
+import { parseDateValue, parseNumberValue } from './sort';
+
+// Лист из внешнего файла до превращения в таблицу: просто строки значений
+export interface ImportedSheet {
+  name: string;
+  rows: string[][];
+}
+
+const MAX_HEADER_LENGTH = 40;
+
+// Не через Math.max(...rows): на сотнях тысяч строк разворот массива в аргументы переполняет стек
+const widthOf = (rows: string[][]) => rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+// Лист больше, чем вмещает книга, не импортируем: его не удалось бы ни сохранить, ни отправить ссылкой.
+// Строка заголовков тоже считается — переключатель заголовка не должен делать лист слишком большим
+export const importSizeError = (rows: string[][]) => {
+  const width = widthOf(rows);
+  if (rows.length <= MAX_ROWS && width <= MAX_COLUMNS) return null;
+  return `${rows.length} строк и ${width} столбцов, а лист вмещает не больше ${MAX_ROWS} строк и ${MAX_COLUMNS} столбцов`;
+};
+
+export const detectColumnType = (values: string[]): ColumnType => {
+  const nonEmpty = values.filter(v => v.trim() !== '');
+  if (nonEmpty.length === 0) return 'text';
+
+  const datePattern = /^\d{1,2}[./-]\d{1,2}[./-]\d{2,4}$/;
+  const dateCount = nonEmpty.filter(v => datePattern.test(v)).length;
+  if (dateCount / nonEmpty.length > 0.6) return 'date';
+
+  const avgLength = nonEmpty.reduce((sum, v) => sum + v.length, 0) / nonEmpty.length;
+  if (avgLength < 30) return 'title';
+  if (avgLength > 50) return 'info';
+
+  return 'text';
+};
+
+const isValueLike = (value: string) => parseNumberValue(value) !== null || parseDateValue(value) !== null;
+
+// Первая строка похожа на заголовок, если в ней короткие неповторяющиеся подписи без чисел и дат,
+// а под ней есть данные; ошибку эвристики пользователь исправит переключателем при импорте
+export const looksLikeHeader = (rows: string[][]) => {
+  const [first, ...body] = rows;
+  if (!first || body.length === 0) return false;
+  const labels = first.map(v => v.trim()).filter(Boolean);
+  const width = widthOf(rows);
+  if (labels.length === 0 || labels.length < width / 2) return false;
+  if (labels.some(label => isValueLike(label) || label.length > MAX_HEADER_LENGTH)) return false;
+  return new Set(labels.map(label => label.toLowerCase())).size === labels.length;
+};
+
+// Пустые строки и столбцы по краям не нужны: иначе таблица вырастет до «последней тронутой» ячейки файла
+export const trimRows = (rows: string[][]) => {
+  let height = rows.length;
+  while (height > 0 && rows[height - 1].every(v => v.trim() === '')) height--;
+  const trimmed = rows.slice(0, height);
+  const width = trimmed.reduce((max, row) => {
+    let w = row.length;
+    while (w > 0 && row[w - 1].trim() === '') w--;
+    return Math.max(max, w);
+  }, 0);
+  return trimmed.map(row => Array.from({ length: width }, (_, c) => row[c] ?? ''));
+};
+
+// Таблица по размеру данных: названия столбцов — из заголовка, типы — по содержимому
+export const sheetFromRows = (rows: string[][], hasHeader: boolean): SheetData => {
+  const [header, body] = hasHeader ? [rows[0] ?? [], rows.slice(1)] : [[], rows];
+  const width = Math.max(1, widthOf(rows));
+  const columns = Array.from({ length: width }, (_, c) =>
+    createColumn(
+      header[c]?.trim() || columnLabel(c),
+      detectColumnType(body.map(row => row[c] ?? ''))
+    )
+  );
+  const cells = body.flatMap((row, r) =>
+    row.flatMap((value, c) => (value === '' ? [] : [{ row: r, col: c, value }]))
+  );
+  return { rowCount: Math.max(DEFAULT_ROWS, body.length), columns, cells };
+};
@@ -0,0 +1,177 @@
+import type { CellData, ColumnConfig, SheetData } from './sheet';
+import type { WorkbookSheetData } from './workbook';
+
+export interface CellConflict {
+  kind: 'cell';
+  sheetName: string;
+  row: number;
+  col: number;
+  base: string;
+  local: string;
+  remote: string;
+}
+
+// Строки или столбцы вставлены, удалены или переставлены с обеих сторон: ячейки уже не сопоставить,
+// поэтому выбирается лист целиком
+export interface SheetConflict {
+  kind: 'sheet';
+  sheetName: string;
+  local: WorkbookSheetData;
+  remote: WorkbookSheetData;
+}
+
+export interface NameConflict {
+  kind: 'name';
+  base: string;
+  local: string;
+  remote: string;
+}
+
+export type MergeConflict = CellConflict | SheetConflict | NameConflict;
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface MergeContent {
+  name: string;
+  sheets: WorkbookSheetData[];
+}
+
+export interface MergeResult extends MergeContent {
+  conflicts: MergeConflict[];
+}
+
+const cellMap = (sheet: SheetData | undefined) => {
+  const map = new Map<string, string>();
+  sheet?.cells.forEach(cell => {
+    if (cell.value !== '') map.set(`${cell.row}:${cell.col}`, cell.value);
+  });
+  return map;
+};
+
+const sameColumns = (a: ColumnConfig[] | undefined, b: ColumnConfig[]) => JSON.stringify(a) === JSON.stringify(b);
+
+// Структура листа — число строк и порядок столбцов по id; названия и типы столбцов в неё не входят
+const sameStructure = (a: SheetData, b: SheetData) =>
+  a.rowCount === b.rowCount && a.columns.length === b.columns.length && a.columns.every((c, i) => c.id === b.columns[i].id);
+
+const sameSheet = (a: SheetData, b: SheetData) => {
+  if (a.rowCount !== b.rowCount || !sameColumns(a.columns, b.columns)) return false;
+  const left = cellMap(a);
+  const right = cellMap(b);
+  return left.size === right.size && Array.from(left).every(([key, value]) => right.get(key) === value);
+};
+
+// Изменение только с одной стороны принимается без вопросов, одинаковые правки — тоже; null — конфликт
+const mergeValue = <T>(base: T, local: T, remote: T, same: (a: T, b: T) => boolean = (a, b) => a === b) =>
+  same(local, remote) || same(remote, base) ? local : same(local, base) ? remote : null;
+
+// Столбцы совпадают по id и порядку — настройки каждого берём с той стороны, где их меняли
+const mergeColumns = (base: ColumnConfig[] | undefined, local: ColumnConfig[], remote: ColumnConfig[]) =>
+  local.map((column, i) => {
+    const baseColumn = base?.find(c => c.id === column.id);
+    if (!baseColumn) return column;
+    return mergeValue(baseColumn, column, remote[i], (a, b) => a.name === b.name && a.type === b.type) ?? column;
+  });
+
+const mergeSheet = (name: string, base: WorkbookSheetData | undefined, local: WorkbookSheetData, remote: WorkbookSheetData) => {
+  const conflicts: MergeConflict[] = [];
+  // Лист менялся только с одной стороны — он и остаётся; id листа всегда локальный
+  if (sameSheet(local, remote) || (base && sameSheet(base, remote))) return { sheet: local, conflicts };
+  if (base && sameSheet(base, local)) return { sheet: { ...remote, id: local.id }, conflicts };
+
+  // Ячейки сопоставляются по номеру строки и столбца, а это верно, только пока структура не менялась
+  const structureChanged = !base || !sameStructure(base, local) || !sameStructure(base, remote);
+  if (structureChanged && !sameStructure(local, remote)) {
+    conflicts.push({ kind: 'sheet', sheetName: name, local, remote });
+    return { sheet: local, conflicts };
+  }
+
+  const baseCells = cellMap(base);
+  const localCells = cellMap(local);
+  const remoteCells = cellMap(remote);
+  const keys = new Set([...baseCells.keys(), ...localCells.keys(), ...remoteCells.keys()]);
+  const cells: CellData[] = [];
+
+  keys.forEach(key => {
+    const [row, col] = key.split(':').map(Number);
+    const b = baseCells.get(key) ?? '';
+    const l = localCells.get(key) ?? '';
+    const r = remoteCells.get(key) ?? '';
+    const value = mergeValue(b, l, r);
+    if (value === null) {
+      conflicts.push({ kind: 'cell', sheetName: name, row, col, base: b, local: l, remote: r });
+      cells.push({ row, col, value: l });
+    } else if (value !== '') {
+      cells.push({ row, col, value });
+    }
+  });
+
+  const sheet: WorkbookSheetData = {
+    id: local.id,
+    name,
+    rowCount: local.rowCount,
+    columns: mergeColumns(base?.columns, local.columns, remote.columns),
+    cells: cells.sort((a, b) => a.row - b.row || a.col - b.col),
+  };
+  return { sheet, conflicts };
+};
+
+// Трёхстороннее слияние: base — состояние после последней синхронизации, листы сопоставляются по названию.
+// Название документа сливается так же, как ячейки; без известного base разные названия — конфликт
+export const mergeDocuments = (
+  base: { name?: string; sheets: WorkbookSheetData[] },
+  local: MergeContent,
+  remote: MergeContent
+): MergeResult => {
+  const names = [...local.sheets.map(s => s.name), ...remote.sheets.map(s => s.name).filter(name => !local.sheets.some(s => s.name === name))];
+  const sheets: WorkbookSheetData[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  const name = base.name === undefined ? (local.name === remote.name ? local.name : null) : mergeValue(base.name, local.name, remote.name);
+  if (name === null) conflicts.push({ kind: 'name', base: base.name ?? '', local: local.name, remote: remote.name });
+
+  names.forEach(sheetName => {
+    const b = base.sheets.find(s => s.name === sheetName);
+    const l = local.sheets.find(s => s.name === sheetName);
+    const r = remote.sheets.find(s => s.name === sheetName);
+    if (!l || !r) {
+      const present = (l ?? r)!;
+      // Лист удалили с одной стороны и не трогали с другой — удаление принимается
+      if (b && sameSheet(b, present)) return;
+      sheets.push(present);
+      return;
+    }
+    const merged = mergeSheet(sheetName, b, l, r);
+    sheets.push(merged.sheet);
+    conflicts.push(...merged.conflicts);
+  });
+
+  return { name: name ?? local.name, sheets, conflicts };
+};
+
+export const resolveConflicts = (merged: MergeContent, conflicts: MergeConflict[], choices: ConflictChoice[]): MergeContent => {
+  const chosen = conflicts.map((conflict, i) => ({ conflict, remote: choices[i] === 'remote' }));
+  const name = chosen.find(({ conflict }) => conflict.kind === 'name');
+
+  const sheets = merged.sheets.map(sheet => {
+    const whole = chosen.find(({ conflict }) => conflict.kind === 'sheet' && conflict.sheetName === sheet.name);
+    if (whole?.conflict.kind === 'sheet') return whole.remote ? { ...whole.conflict.remote, id: sheet.id } : sheet;
+
+    const resolved = new Map<string, string>();
+    chosen.forEach(({ conflict, remote }) => {
+      if (conflict.kind !== 'cell' || conflict.sheetName !== sheet.name) return;
+      resolved.set(`${conflict.row}:${conflict.col}`, remote ? conflict.remote : conflict.local);
+    });
+    if (resolved.size === 0) return sheet;
+    const cells = sheet.cells.map(cell => {
+      const value = resolved.get(`${cell.row}:${cell.col}`);
+      return value === undefined ? cell : { ...cell, value };
+    });
+    return { ...sheet, cells: cells.filter(cell => cell.value !== '') };
+  });
+
+  return {
+    name: name?.conflict.kind === 'name' && name.remote ? name.conflict.remote : merged.name,
+    sheets,
+  };
+};
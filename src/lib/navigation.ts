@@ -0,0 +1,49 @@
+import type { SheetStore } from './sheet';
+import type { CellPosition } from './selection';
+
+export const clampPosition = (sheet: SheetStore, row: number, col: number): CellPosition => ({
+  row: Math.min(Math.max(row, 0), sheet.getRowCount() - 1),
+  col: Math.min(Math.max(col, 0), sheet.getColCount() - 1),
+});
+
+// Ctrl+стрелка, как в Excel: внутри блока данных — к его краю,
+// иначе — к следующей заполненной ячейке или к границе листа
+export const findDataEdge = (sheet: SheetStore, from: CellPosition, dRow: number, dCol: number): CellPosition => {
+  const filled = (row: number, col: number) => sheet.getValue(row, col) !== '';
+  const inside = (row: number, col: number) =>
+    row >= 0 && row < sheet.getRowCount() && col >= 0 && col < sheet.getColCount();
+
+  let { row, col } = from;
+  if (!inside(row + dRow, col + dCol)) return from;
+
+  if (filled(row, col) && filled(row + dRow, col + dCol)) {
+    while (inside(row + dRow, col + dCol) && filled(row + dRow, col + dCol)) {
+      row += dRow;
+      col += dCol;
+    }
+    return { row, col };
+  }
+
+  row += dRow;
+  col += dCol;
+  while (!filled(row, col) && inside(row + dRow, col + dCol)) {
+    row += dRow;
+    col += dCol;
+  }
+  return { row, col };
+};
+
+// End — последняя заполненная ячейка строки, Ctrl+End — правый нижний угол данных
+export const lastUsedInRow = (sheet: SheetStore, row: number) => {
+  let last = 0;
+  for (let col = 0; col < sheet.getColCount(); col++) {
+    if (sheet.getValue(row, col) !== '') last = col;
+  }
+  return last;
+};
+
+export const lastUsedCell = (sheet: SheetStore): CellPosition =>
+  sheet.getCells().reduce(
+    (acc, cell) => (cell.value === '' ? acc : { row: Math.max(acc.row, cell.row), col: Math.max(acc.col, cell.col) }),
+    { row: 0, col: 0 }
+  );
@@ -0,0 +1,45 @@
+const OCR_URL = 'https://functions.poehali.dev/32b98d17-d76f-43cf-85ea-e1d226b5f7f2';
+
+// Сеть недоступна — фото стоит отложить и отправить позже
+export class OcrNetworkError extends Error {}
+// Сервис ответил, но текст не распознал — повторять бессмысленно
+export class OcrRecognitionError extends Error {}
+
+export const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const recognizeImage = async (image: Blob): Promise<string> => {
+  const base64Image = await readAsDataUrl(image);
+  let response: Response;
+  try {
+    response = await fetch(OCR_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        image: base64Image
+      })
+    });
+  } catch (error) {
+    throw new OcrNetworkError(error instanceof Error ? error.message : 'Сеть недоступна');
+  }
+
+  // 5xx и обрыв на середине ответа — временные сбои, их тоже стоит повторить
+  if (response.status >= 500) throw new OcrNetworkError(`HTTP ${response.status}`);
+  let result: { text?: string; error?: string };
+  try {
+    result = await response.json();
+  } catch {
+    throw new OcrNetworkError('Ответ сервиса распознавания оборвался');
+  }
+  if (!response.ok || !result.text) {
+    throw new OcrRecognitionError(result.error || 'Не удалось распознать текст');
+  }
+  return result.text;
+};
@@ -0,0 +1,272 @@
+import { isError, type CellValue } from './formula/evaluate';
+import { isFormula, toOpenFormula } from './formula/parser';
+import { trimRows, type ImportedSheet } from './import';
+import { parseDateValue } from './sort';
+import type { ColumnConfig } from './sheet';
+import {
+  checkImportedSheet,
+  children,
+  columnWidths,
+  elements,
+  escapeXml,
+  exportFormula,
+  formatNumber,
+  formatTimestamp,
+  numericValue,
+  parseXml,
+  sheetRows,
+  SpreadsheetImportError,
+  worksheetName,
+  XML_HEADER,
+} from './spreadsheet';
+import type { WorkbookSheet } from './workbook';
+import { createZip, openZip, ZipError } from './zip';
+
+export const ODS_MIME = 'application/vnd.oasis.opendocument.spreadsheet';
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:number="urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0"',
+  'xmlns:config="urn:oasis:names:tc:opendocument:xmlns:config:1.0"',
+].join(' ');
+
+// Примерная ширина символа шрифта по умолчанию в LibreOffice
+const CHAR_WIDTH_CM = 0.22;
+// Строки, повторённые больше этого числа раз, — оформление пустого хвоста листа, а не данные
+const MAX_REPEAT = 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const isoDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+
+// В ODF пробелы внутри абзаца схлопываются: повторы и табуляции записываются отдельными элементами
+const paragraphs = (value: string) =>
+  value.split('\n').map(line => {
+    const text = escapeXml(line)
+      .replace(/\t/g, '<text:tab/>')
+      .replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+      .replace(/^ /, '<text:s/>');
+    return `<text:p>${text}</text:p>`;
+  }).join('');
+
+const stringCell = (value: string, style = '') =>
+  `<table:table-cell${style && ` table:style-name="${style}"`} office:value-type="string">${paragraphs(value)}</table:table-cell>`;
+
+const literalCell = (value: string, column: ColumnConfig) => {
+  if (column.type === 'date') {
+    const timestamp = parseDateValue(value);
+    if (timestamp !== null) {
+      return `<table:table-cell table:style-name="ced" office:value-type="date" office:date-value="${isoDate(timestamp)}">${paragraphs(value)}</table:table-cell>`;
+    }
+  }
+  const number = numericValue(value);
+  return number === null
+    ? stringCell(value)
+    : `<table:table-cell office:value-type="float" office:value="${number}">${paragraphs(value)}</table:table-cell>`;
+};
+
+const computedCell = (value: CellValue, display: string, formula: string) => {
+  const f = formula && ` table:formula="${escapeXml(formula)}"`;
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<table:table-cell${f} office:value-type="float" office:value="${value}">${paragraphs(display)}</table:table-cell>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<table:table-cell${f} office:value-type="boolean" office:boolean-value="${value}">${paragraphs(display)}</table:table-cell>`;
+  }
+  if (isError(value) && f) return `<table:table-cell${f}>${paragraphs(display)}</table:table-cell>`;
+  return `<table:table-cell${f} office:value-type="string" office:string-value="${escapeXml(display)}">${paragraphs(display)}</table:table-cell>`;
+};
+
+const tableXml = (sheet: WorkbookSheet, name: string, keepFormulas: boolean) => {
+  const { formulas } = sheet;
+  const { data, rows, displayed } = sheetRows(sheet);
+  const columns = columnWidths(data.columns, displayed)
+    .map(width => `<table:table-column table:style-name="co${width}" table:default-cell-style-name="Default"/>`)
+    .join('');
+  const header = `<table:table-header-rows><table:table-row>${data.columns.map(c => stringCell(c.name, 'ceh')).join('')}</table:table-row></table:table-header-rows>`;
+  // Над данными — строка заголовков, поэтому ссылки в формулах сдвинуты на одну строку
+  const body = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      if (value === '') return '<table:table-cell/>';
+      if (!isFormula(value)) return literalCell(value, data.columns[c]);
+      return computedCell(formulas.getValue(r, c), displayed[r][c], keepFormulas ? exportFormula(value, f => toOpenFormula(f, 1)) : '');
+    });
+    return `<table:table-row>${cells.join('')}</table:table-row>`;
+  });
+  return `<table:table table:name="${escapeXml(name)}">${columns}${header}${body.join('')}</table:table>`;
+};
+
+const contentXml = (sheets: WorkbookSheet[], names: string[], keepFormulas: boolean) => {
+  const widths = new Set(sheets.flatMap(sheet => {
+    const { data, displayed } = sheetRows(sheet);
+    return columnWidths(data.columns, displayed);
+  }));
+  return XML_HEADER + [
+    `<office:document-content ${NAMESPACES} office:version="1.2">`,
+    '<office:automatic-styles>',
+    '<number:date-style style:name="N1"><number:day number:style="long"/><number:text>.</number:text>',
+    '<number:month number:style="long"/><number:text>.</number:text><number:year number:style="long"/></number:date-style>',
+    ...Array.from(widths, width =>
+      `<style:style style:name="co${width}" style:family="table-column"><style:table-column-properties style:column-width="${(width * CHAR_WIDTH_CM).toFixed(2)}cm"/></style:style>`
+    ),
+    '<style:style style:name="ceh" style:family="table-cell" style:parent-style-name="Default"><style:text-properties fo:font-weight="bold"/></style:style>',
+    '<style:style style:name="ced" style:family="table-cell" style:parent-style-name="Default" style:data-style-name="N1"/>',
+    '</office:automatic-styles>',
+    '<office:body><office:spreadsheet>',
+    ...sheets.map((sheet, i) => tableXml(sheet, names[i], keepFormulas)),
+    '</office:spreadsheet></office:body>',
+    '</office:document-content>',
+  ].join('');
+};
+
+// Настройки вида: активный лист и закреплённая строка заголовков на каждом листе
+const settingsXml = (names: string[], active: number) => {
+  const item = (name: string, type: string, value: string | number) =>
+    `<config:config-item config:name="${name}" config:type="${type}">${value}</config:config-item>`;
+  const tables = names.map(name =>
+    `<config:config-item-map-entry config:name="${escapeXml(name)}">` +
+    item('VerticalSplitMode', 'short', 2) +
+    item('VerticalSplitPosition', 'int', 1) +
+    item('ActiveSplitRange', 'short', 2) +
+    item('PositionBottom', 'int', 1) +
+    '</config:config-item-map-entry>'
+  ).join('');
+  return XML_HEADER + [
+    `<office:document-settings ${NAMESPACES} office:version="1.2"><office:settings>`,
+    '<config:config-item-set config:name="ooo:view-settings">',
+    '<config:config-item-map-indexed config:name="Views"><config:config-item-map-entry>',
+    item('ViewId', 'string', 'view1'),
+    `<config:config-item-map-named config:name="Tables">${tables}</config:config-item-map-named>`,
+    item('ActiveTable', 'string', escapeXml(names[active])),
+    '</config:config-item-map-entry></config:config-item-map-indexed>',
+    '</config:config-item-set>',
+    '</office:settings></office:document-settings>',
+  ].join('');
+};
+
+const MANIFEST_XML = XML_HEADER + [
+  '<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">',
+  `<manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${ODS_MIME}"/>`,
+  '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>',
+  '<manifest:file-entry manifest:full-path="settings.xml" manifest:media-type="text/xml"/>',
+  '</manifest:manifest>',
+].join('');
+
+// Книга OpenDocument для LibreOffice: все листы, строка заголовков, даты и числа — типизированными ячейками.
+// keepFormulas — сохранить формулы вместе с вычисленными значениями, иначе только значения
+export const workbookToOds = async (sheets: WorkbookSheet[], activeIndex: number, keepFormulas: boolean) => {
+  const usedNames = new Set<string>();
+  const names = sheets.map(sheet => worksheetName(sheet.name, usedNames));
+  const active = Math.max(0, Math.min(activeIndex, sheets.length - 1));
+  // mimetype по стандарту идёт первым и без сжатия — по нему файл узнают без распаковки
+  const zip = await createZip([
+    { name: 'mimetype', data: ODS_MIME, stored: true },
+    { name: 'META-INF/manifest.xml', data: MANIFEST_XML },
+    { name: 'content.xml', data: contentXml(sheets, names, keepFormulas) },
+    { name: 'settings.xml', data: settingsXml(names, active) },
+  ]);
+  return new Blob([zip], { type: ODS_MIME });
+};
+
+// Атрибуты читаем по локальному имени: префиксы пространств имён в файле могут быть любыми
+const attr = (el: Element, name: string) =>
+  Array.from(el.attributes).find(a => a.localName === name)?.value ?? null;
+
+const repeatCount = (el: Element, name: string) => Math.max(1, Number(attr(el, name)) || 1);
+
+const textOf = (node: Element): string =>
+  Array.from(node.childNodes).map(child => {
+    if (child.nodeType === 3) return child.textContent ?? '';
+    if (child.nodeType !== 1) return '';
+    const el = child as Element;
+    switch (el.localName) {
+      case 's': return ' '.repeat(repeatCount(el, 'c'));
+      case 'tab': return '\t';
+      case 'line-break': return '\n';
+      case 'annotation': return '';
+      default: return textOf(el);
+    }
+  }).join('');
+
+// Время в ODF — длительность ISO 8601: PT12H30M00S
+const parseDuration = (value: string) => {
+  const match = /^-?P(?:\d+D)?T(\d+)H(\d+)M(\d+(?:\.\d+)?)S$/.exec(value);
+  return match ? ((Number(match[1]) * 60 + Number(match[2])) * 60 + Number(match[3])) * 1000 : null;
+};
+
+const cellText = (cell: Element) => {
+  switch (attr(cell, 'value-type')) {
+    case 'float':
+    case 'percentage':
+    case 'currency': {
+      const number = Number(attr(cell, 'value'));
+      return Number.isFinite(number) ? formatNumber(number) : textOf(cell);
+    }
+    case 'date': {
+      const value = attr(cell, 'date-value') ?? '';
+      const match = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/.exec(value);
+      if (!match) return value;
+      const [, y, m, d, hh = '0', mm = '0', ss = '0'] = match;
+      const timestamp = Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+      return formatTimestamp(timestamp, { date: true, time: Number(hh) + Number(mm) + Number(ss) > 0 });
+    }
+    case 'time': {
+      const ms = parseDuration(attr(cell, 'time-value') ?? '');
+      return ms === null ? children(cell, 'p').map(textOf).join('\n') : formatTimestamp(ms, { date: false, time: true });
+    }
+    case 'boolean':
+      return attr(cell, 'boolean-value') === 'true' ? 'TRUE' : 'FALSE';
+    default:
+      return children(cell, 'p').map(textOf).join('\n');
+  }
+};
+
+const readTableRows = (table: Element) => {
+  const rows: string[][] = [];
+  let rowIndex = 0;
+  elements(table, 'table-row').forEach(rowEl => {
+    const row: string[] = [];
+    let col = 0;
+    Array.from(rowEl.children).forEach(cell => {
+      if (cell.localName !== 'table-cell' && cell.localName !== 'covered-table-cell') return;
+      const count = repeatCount(cell, 'number-columns-repeated');
+      const value = cellText(cell);
+      if (value !== '') {
+        for (let i = 0; i < Math.min(count, MAX_REPEAT); i++) row[col + i] = value;
+      }
+      col += count;
+    });
+    const count = repeatCount(rowEl, 'number-rows-repeated');
+    if (row.length > 0) {
+      const dense = Array.from(row, v => v ?? '');
+      for (let i = 0; i < Math.min(count, MAX_REPEAT); i++) rows[rowIndex + i] = dense;
+    }
+    rowIndex += count;
+  });
+  return trimRows(Array.from(rows, row => row ?? []));
+};
+
+// Все листы книги в виде строк значений: формулы — вычисленными значениями, даты — ДД.ММ.ГГГГ
+export const readOds = async (file: Blob): Promise<ImportedSheet[]> => {
+  try {
+    const zip = openZip(await file.arrayBuffer());
+    const content = await zip.readText('content.xml');
+    if (!content) throw new SpreadsheetImportError('Это не файл .ods: в нём нет содержимого таблицы');
+    const spreadsheet = elements(parseXml(content, 'content.xml'), 'spreadsheet')[0];
+    if (!spreadsheet) throw new SpreadsheetImportError('Это документ OpenDocument, но не таблица');
+    const sheets = children(spreadsheet, 'table').map((table, i) =>
+      checkImportedSheet({ name: attr(table, 'name') || `Лист ${i + 1}`, rows: readTableRows(table) })
+    );
+    if (sheets.length === 0) throw new SpreadsheetImportError('В книге нет листов');
+    return sheets;
+  } catch (e) {
+    throw e instanceof ZipError ? new SpreadsheetImportError('Это не файл .ods или он повреждён') : e;
+  }
+};
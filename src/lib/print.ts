@@ -0,0 +1,123 @@
+import { columnLabel, type ColumnConfig } from './sheet';
+import { columnWidths, sheetRows } from './spreadsheet';
+import type { WorkbookSheet } from './workbook';
+
+export type PageOrientation = 'portrait' | 'landscape';
+// width — уменьшить столбцы до ширины листа, split — разнести лишние столбцы на следующие страницы
+export type PageFit = 'width' | 'split';
+
+export interface PrintOptions {
+  orientation: PageOrientation;
+  fit: PageFit;
+  showDate: boolean;
+}
+
+const OPTIONS_KEY = 'voice-to-excel:print-options';
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = { orientation: 'portrait', fit: 'width', showDate: true };
+
+export const loadPrintOptions = (): PrintOptions => {
+  try {
+    return { ...DEFAULT_PRINT_OPTIONS, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_PRINT_OPTIONS;
+  }
+};
+
+export const savePrintOptions = (options: PrintOptions) => {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+};
+
+// Размеры — в миллиметрах, A4
+export const PAGE_MARGIN_MM = 12;
+export const PAGE_HEADER_MM = 12;
+export const PAGE_FOOTER_MM = 8;
+const A4 = { width: 210, height: 297 };
+export const MM_TO_PX = 96 / 25.4;
+
+// Страница на миллиметр ниже листа: иначе из-за округления браузер добавляет пустые страницы
+export const pageSize = (orientation: PageOrientation) => {
+  const { width, height } = orientation === 'portrait' ? A4 : { width: A4.height, height: A4.width };
+  return { width, height: height - 1 };
+};
+
+// Место под таблицу на странице, в пикселях CSS
+export const tableArea = (orientation: PageOrientation) => {
+  const { width, height } = pageSize(orientation);
+  return {
+    width: (width - 2 * PAGE_MARGIN_MM) * MM_TO_PX,
+    height: (height - 2 * PAGE_MARGIN_MM - PAGE_HEADER_MM - PAGE_FOOTER_MM) * MM_TO_PX,
+  };
+};
+
+// Ширина символа и поля ячейки при шрифте печати 11px
+const CHAR_PX = 6.5;
+const CELL_PADDING_PX = 12;
+export const ROW_NUMBER_WIDTH_PX = 36;
+
+export interface PrintSheet {
+  columns: ColumnConfig[];
+  rows: string[][];
+  // Естественная ширина столбцов в пикселях
+  widths: number[];
+}
+
+// Значения как на экране; пустые столбцы в конце не печатаются, если их не переименовали
+export const printSheet = (sheet: WorkbookSheet): PrintSheet => {
+  const { data, displayed } = sheetRows(sheet);
+  let width = data.columns.length;
+  const isEmpty = (c: number) => displayed.every(row => row[c] === '');
+  while (width > 1 && isEmpty(width - 1) && data.columns[width - 1].name === columnLabel(width - 1)) width--;
+  const columns = data.columns.slice(0, width);
+  const rows = displayed.map(row => row.slice(0, width));
+  return { columns, rows, widths: columnWidths(columns, rows).map(chars => chars * CHAR_PX + CELL_PADDING_PX) };
+};
+
+// Группы столбцов, по которым печатаются страницы; номер строки повторяется в каждой группе
+export const columnGroups = (widths: number[], available: number, fit: PageFit): number[][] => {
+  const all = widths.map((_, i) => i);
+  if (fit === 'width' || all.length === 0) return [all];
+  const groups: number[][] = [];
+  let current: number[] = [];
+  let used = ROW_NUMBER_WIDTH_PX;
+  widths.forEach((width, i) => {
+    if (current.length > 0 && used + width > available) {
+      groups.push(current);
+      current = [];
+      used = ROW_NUMBER_WIDTH_PX;
+    }
+    current.push(i);
+    used += width;
+  });
+  groups.push(current);
+  return groups;
+};
+
+// Ширины столбцов группы: при подгонке — пропорционально до полной ширины листа,
+// иначе естественные, а столбец шире листа сужается до него
+export const groupWidths = (widths: number[], group: number[], available: number, fit: PageFit) => {
+  const room = available - ROW_NUMBER_WIDTH_PX;
+  const natural = group.map(i => Math.min(widths[i], room));
+  if (fit === 'split') return natural;
+  const total = natural.reduce((sum, w) => sum + w, 0);
+  return natural.map(w => (w / total) * room);
+};
+
+// Разбивка строк по страницам по измеренным высотам; заголовок таблицы есть на каждой странице.
+// Строка выше страницы занимает страницу целиком
+export const paginateRows = (rowHeights: number[], headerHeight: number, available: number): number[][] => {
+  const pages: number[][] = [];
+  let current: number[] = [];
+  let used = headerHeight;
+  rowHeights.forEach((height, i) => {
+    if (current.length > 0 && used + height > available) {
+      pages.push(current);
+      current = [];
+      used = headerHeight;
+    }
+    current.push(i);
+    used += height;
+  });
+  pages.push(current);
+  return pages;
+};
@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import { fileNameFor } from './download';
+import type { StoredDocument } from './storage';
+import type { WorkbookSheetData } from './workbook';
+
+// Файл проекта — полная копия книги: листы, настройки столбцов и значения ячеек (формулы — исходным текстом)
+export const PROJECT_FORMAT = 'voice-to-excel-project';
+export const PROJECT_VERSION = 2;
+export const PROJECT_EXTENSION = '.vtx.json';
+export const APP_NAME = 'Excel Voice Pro';
+export const APP_VERSION = __APP_VERSION__;
+
+// Границы листа: файл (или ссылка) с rowCount 1e9 иначе заставил бы вкладку выделять память под пустые строки
+export const MAX_ROWS = 100000;
+export const MAX_COLUMNS = 1000;
+
+export class ProjectFileError extends Error {}
+
+const columnSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum(['date', 'title', 'info', 'text']),
+});
+
+const cellSchema = z.object({
+  row: z.number().int().nonnegative(),
+  col: z.number().int().nonnegative(),
+  value: z.string(),
+});
+
+// Лист книги; им же проверяются листы, пришедшие с сервера синхронизации
+export const sheetSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    name: z.string().trim().min(1),
+    rowCount: z.number().int().positive().max(MAX_ROWS),
+    columns: z.array(columnSchema).min(1).max(MAX_COLUMNS),
+    cells: z.array(cellSchema),
+  })
+  .superRefine((sheet, ctx) => {
+    const ids = new Set<string>();
+    sheet.columns.forEach((column, i) => {
+      if (ids.has(column.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['columns', i, 'id'], message: `повторяется id столбца «${column.id}»` });
+      }
+      ids.add(column.id);
+    });
+    sheet.cells.forEach((cell, i) => {
+      if (cell.row >= sheet.rowCount || cell.col >= sheet.columns.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['cells', i],
+          message: `ячейка (${cell.row + 1}, ${cell.col + 1}) за пределами листа ${sheet.rowCount}×${sheet.columns.length}`,
+        });
+      }
+    });
+  });
+
+// Откуда документ попал в файл: приложение, его версия и id документа в библиотеке
+const sourceSchema = z.object({
+  app: z.string(),
+  appVersion: z.string(),
+  documentId: z.string(),
+});
+
+// Где документ появился впервые — сохраняется при открытии файла и переходит в следующие файлы
+const originSchema = z.object({
+  documentId: z.string(),
+  title: z.string(),
+  app: z.string(),
+  appVersion: z.string(),
+});
+
+const projectSchema = z
+  .object({
+    format: z.literal(PROJECT_FORMAT),
+    version: z.literal(PROJECT_VERSION),
+    name: z.string(),
+    savedAt: z.number(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    source: sourceSchema,
+    origin: originSchema.optional(),
+    activeIndex: z.number().int().nonnegative(),
+    sheets: z.array(sheetSchema).min(1),
+  })
+  .superRefine((project, ctx) => {
+    if (project.activeIndex >= project.sheets.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['activeIndex'], message: 'нет листа с таким номером' });
+    }
+    const names = new Set<string>();
+    project.sheets.forEach((sheet, i) => {
+      if (names.has(sheet.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sheets', i, 'name'], message: `повторяется название листа «${sheet.name}»` });
+      }
+      names.add(sheet.name);
+    });
+  });
+
+export type ProjectFile = z.infer<typeof projectSchema>;
+export type ProjectOrigin = z.infer<typeof originSchema>;
+
+type RawProject = Record<string, unknown> & { version: number };
+
+// Миграции переводят файл из версии N в N + 1. Меняя формат, увеличьте PROJECT_VERSION
+// и добавьте сюда шаг от предыдущей версии — старые файлы продолжат открываться
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // Версия 1 не знала ни даты создания, ни откуда файл: берём время сохранения, источник — неизвестен
+  1: project => ({
+    ...project,
+    createdAt: project.savedAt,
+    updatedAt: project.savedAt,
+    source: { app: APP_NAME, appVersion: '', documentId: '' },
+  }),
+};
+
+const migrate = (project: RawProject) => {
+  let current = project;
+  while (current.version < PROJECT_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new ProjectFileError(`Версия формата ${current.version} не поддерживается`);
+    current = { ...step(current), version: current.version + 1 };
+  }
+  return current;
+};
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'строка',
+  number: 'число',
+  array: 'список',
+  object: 'объект',
+  undefined: 'нет значения',
+  null: 'null',
+  boolean: 'логическое значение',
+};
+
+const describeIssue = (issue: z.ZodIssue) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return issue.received === 'undefined'
+        ? 'обязательное поле отсутствует'
+        : `ожидается ${TYPE_NAMES[issue.expected] ?? issue.expected}, а не ${TYPE_NAMES[issue.received] ?? issue.received}`;
+    case z.ZodIssueCode.invalid_enum_value:
+      return `недопустимое значение «${issue.received}», возможны: ${issue.options.join(', ')}`;
+    case z.ZodIssueCode.too_small:
+      return issue.type === 'array' ? 'список пуст' : 'значение слишком мало или пусто';
+    case z.ZodIssueCode.too_big:
+      return `больше допустимого (${issue.maximum})`;
+    case z.ZodIssueCode.invalid_literal:
+      return `ожидается ${JSON.stringify(issue.expected)}`;
+    default:
+      return issue.message;
+  }
+};
+
+const PATH_LABELS: Record<string, string> = { sheets: 'лист', columns: 'столбец', cells: 'запись' };
+
+// sheets.0.cells.3 → «лист 1, запись 4» — так ошибку проще найти в файле
+const describePath = (path: (string | number)[]) =>
+  path
+    .map((part, i) => {
+      if (typeof part === 'number') return `${PATH_LABELS[path[i - 1]] ?? 'элемент'} ${part + 1}`;
+      return PATH_LABELS[part] ? null : part;
+    })
+    .filter(Boolean)
+    .join(', ');
+
+export type ProjectDocument = Pick<StoredDocument, 'id' | 'name' | 'updatedAt' | 'activeIndex' | 'sheets' | 'createdAt' | 'origin'>;
+
+// Лист больше, чем примет parseProject, не сохраняем: файл или ссылка потом не открылись бы
+const checkSheetSize = ({ name, rowCount, columns }: WorkbookSheetData) => {
+  if (rowCount > MAX_ROWS || columns.length > MAX_COLUMNS) {
+    throw new ProjectFileError(
+      `Лист «${name}» слишком большой: ${rowCount} строк и ${columns.length} столбцов ` +
+      `при допустимых ${MAX_ROWS} и ${MAX_COLUMNS}. Удалите лишние строки или столбцы`
+    );
+  }
+};
+
+export const serializeProject = (document: ProjectDocument, indent = 2) => {
+  document.sheets.forEach(checkSheetSize);
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name: document.name,
+    savedAt: Date.now(),
+    createdAt: document.createdAt ?? document.updatedAt,
+    updatedAt: document.updatedAt,
+    source: { app: APP_NAME, appVersion: APP_VERSION, documentId: document.id },
+    origin: document.origin,
+    activeIndex: document.activeIndex,
+    sheets: document.sheets.map(({ name, rowCount, columns, cells }) => ({
+      name,
+      rowCount,
+      columns,
+      cells: cells.filter(cell => cell.value !== ''),
+    })),
+  };
+  return JSON.stringify(project, null, indent);
+};
+
+export const parseProject = (text: string): ProjectFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('Файл повреждён: содержимое не является JSON');
+  }
+  if (typeof raw !== 'object' || raw === null || (raw as { format?: unknown }).format !== PROJECT_FORMAT) {
+    throw new ProjectFileError(`Это не файл проекта ${APP_NAME}`);
+  }
+  const { version } = raw as { version?: unknown };
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('В файле не указана версия формата');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(`Файл создан более новой версией приложения (формат ${version}), обновите страницу`);
+  }
+
+  const result = projectSchema.safeParse(migrate(raw as RawProject));
+  if (!result.success) {
+    const issues = result.error.issues;
+    const details = issues.slice(0, 3).map(issue => `${describePath(issue.path) || 'файл'}: ${describeIssue(issue)}`);
+    if (issues.length > 3) details.push(`и ещё ошибок: ${issues.length - 3}`);
+    throw new ProjectFileError(`Файл повреждён. ${details.join('; ')}`);
+  }
+  return result.data;
+};
+
+export const projectFileName = (name: string) => fileNameFor(name, PROJECT_EXTENSION);
@@ -0,0 +1,164 @@
+import { escapeHtml } from './clipboard';
+import { isError, type CellValue } from './formula/evaluate';
+import { isFormula } from './formula/parser';
+import type { CellRange } from './selection';
+import { columnLabel, type ColumnConfig } from './sheet';
+import { parseDateValue } from './sort';
+import { numericValue } from './spreadsheet';
+import type { WorkbookSheet } from './workbook';
+
+// Текстовые выгрузки для вики, писем и скриптов
+
+export type ReportFormat = 'markdown' | 'html' | 'json';
+
+export const REPORT_FORMATS: Record<ReportFormat, { label: string; extension: string; mime: string }> = {
+  markdown: { label: 'Markdown', extension: '.md', mime: 'text/markdown;charset=utf-8' },
+  html: { label: 'HTML', extension: '.html', mime: 'text/html;charset=utf-8' },
+  json: { label: 'JSON', extension: '.json', mime: 'application/json;charset=utf-8' },
+};
+
+export type ReportValue = string | number | boolean | null;
+
+// text — как в ячейке, value — с типом для JSON
+export interface ReportCell {
+  text: string;
+  value: ReportValue;
+}
+
+export interface ReportTable {
+  title: string;
+  columns: ColumnConfig[];
+  rows: ReportCell[][];
+}
+
+const isoDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+const literalValue = (value: string, column: ColumnConfig): ReportValue => {
+  if (value === '') return null;
+  if (column.type === 'date') {
+    const timestamp = parseDateValue(value);
+    if (timestamp !== null) return isoDate(timestamp);
+  }
+  return numericValue(value) ?? value;
+};
+
+const computedValue = (value: CellValue, text: string): ReportValue => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : text;
+  if (typeof value === 'boolean') return value;
+  if (isError(value)) return text;
+  return value === '' ? null : value;
+};
+
+// Строки — прошедшие фильтр (visibleRows) и попавшие в выделение; полностью пустые пропускаются.
+// Без выделения пустые столбцы в конце отбрасываются, кроме переименованных — как в CSV
+export const reportTable = (
+  { store, formulas }: WorkbookSheet,
+  title: string,
+  visibleRows: number[] | null,
+  range: CellRange | null
+): ReportTable => {
+  const allColumns = store.getColumns();
+  const top = range?.top ?? 0;
+  const bottom = Math.min(range?.bottom ?? Infinity, store.getRowCount() - 1);
+  const rowIndexes = (visibleRows ?? Array.from({ length: store.getRowCount() }, (_, row) => row))
+    .filter(row => row >= top && row <= bottom);
+  const left = range?.left ?? 0;
+  const right = Math.min(range?.right ?? Infinity, allColumns.length - 1);
+  const colIndexes = Array.from({ length: Math.max(0, right - left + 1) }, (_, i) => left + i);
+
+  const rows = rowIndexes
+    .map(row => colIndexes.map(col => {
+      const raw = store.getValue(row, col);
+      if (!isFormula(raw)) return { text: raw, value: literalValue(raw, allColumns[col]) };
+      const text = formulas.getDisplayValue(row, col);
+      return { text, value: computedValue(formulas.getValue(row, col), text) };
+    }))
+    .filter(row => row.some(cell => cell.text !== ''));
+
+  let width = colIndexes.length;
+  if (!range) {
+    const isEmpty = (c: number) => rows.every(row => row[c].text === '');
+    while (width > 0 && isEmpty(width - 1) && allColumns[colIndexes[width - 1]].name === columnLabel(colIndexes[width - 1])) width--;
+  }
+  return {
+    title,
+    columns: colIndexes.slice(0, width).map(col => allColumns[col]),
+    rows: rows.map(row => row.slice(0, width)),
+  };
+};
+
+// Столбец из одних чисел выравнивается вправо
+const isNumericColumn = (table: ReportTable, c: number) =>
+  table.rows.some(row => row[c].value !== null) &&
+  table.rows.every(row => row[c].value === null || typeof row[c].value === 'number');
+
+// GFM: «|» внутри ячейки экранируется, «<» — сущностью, чтобы текст не читался как HTML; перенос строки — <br>
+const markdownCell = (value: string) =>
+  value.replace(/\|/g, '\\|').replace(/</g, '&lt;').replace(/\r?\n/g, '<br>');
+
+export const toMarkdown = (table: ReportTable) => {
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [
+    line(table.columns.map(column => markdownCell(column.name))),
+    line(table.columns.map((_, c) => (isNumericColumn(table, c) ? '---:' : '---'))),
+    ...table.rows.map(row => line(row.map(cell => markdownCell(cell.text)))),
+  ].join('\n') + '\n';
+};
+
+const HTML_STYLE = `
+  body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; margin: 2rem; color: #0f172a; }
+  table { border-collapse: collapse; font-size: 14px; }
+  caption { text-align: left; font-size: 18px; font-weight: 600; padding-bottom: 8px; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 10px; text-align: left; vertical-align: top; }
+  th { background: #e2e8f0; }
+  tbody tr:nth-child(even) { background: #f8fafc; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }`;
+
+// Самостоятельная страница: открывается в браузере и вставляется в письмо с оформлением
+export const toHtmlDocument = (table: ReportTable) => {
+  const numeric = table.columns.map((_, c) => isNumericColumn(table, c));
+  const cell = (tag: 'th' | 'td', value: string, c: number) =>
+    `<${tag}${numeric[c] ? ' class="num"' : ''}>${escapeHtml(value).replace(/\r?\n/g, '<br>')}</${tag}>`;
+  const title = escapeHtml(table.title);
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="ru">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    '<table>',
+    `<caption>${title}</caption>`,
+    `<thead><tr>${table.columns.map((column, c) => cell('th', column.name, c)).join('')}</tr></thead>`,
+    '<tbody>',
+    ...table.rows.map(row => `<tr>${row.map((value, c) => cell('td', value.text, c)).join('')}</tr>`),
+    '</tbody>',
+    '</table>',
+    '</body>',
+    '</html>',
+  ].join('\n') + '\n';
+};
+
+// Массив объектов по названиям столбцов: числа — числами, даты — ГГГГ-ММ-ДД, пустые — null.
+// Повторяющееся название получает номер: «Сумма», «Сумма 2»
+export const toJson = (table: ReportTable) => {
+  const used = new Set<string>();
+  const keys = table.columns.map(column => {
+    let key = column.name;
+    for (let i = 2; used.has(key); i++) key = `${column.name} ${i}`;
+    used.add(key);
+    return key;
+  });
+  const objects = table.rows.map(row => Object.fromEntries(row.map((cell, c) => [keys[c], cell.value])));
+  return JSON.stringify(objects, null, 2) + '\n';
+};
+
+export const renderReport = (table: ReportTable, format: ReportFormat) => {
+  switch (format) {
+    case 'markdown': return toMarkdown(table);
+    case 'html': return toHtmlDocument(table);
+    case 'json': return toJson(table);
+  }
+};
@@ -0,0 +1,83 @@
+import type { CellData, ColumnConfig } from './sheet';
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// anchor — активная ячейка, focus — противоположный угол выделения
+export interface Selection {
+  anchor: CellPosition;
+  focus: CellPosition;
+}
+
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export const cellSelection = (row: number, col: number): Selection => ({
+  anchor: { row, col },
+  focus: { row, col },
+});
+
+export const rowSelection = (fromRow: number, toRow: number, colCount: number): Selection => ({
+  anchor: { row: fromRow, col: 0 },
+  focus: { row: toRow, col: colCount - 1 },
+});
+
+export const columnSelection = (fromCol: number, toCol: number, rowCount: number): Selection => ({
+  anchor: { row: 0, col: fromCol },
+  focus: { row: rowCount - 1, col: toCol },
+});
+
+export const selectionRange = ({ anchor, focus }: Selection): CellRange => ({
+  top: Math.min(anchor.row, focus.row),
+  left: Math.min(anchor.col, focus.col),
+  bottom: Math.max(anchor.row, focus.row),
+  right: Math.max(anchor.col, focus.col),
+});
+
+export const mapSelection = (selection: Selection, map: (pos: CellPosition) => CellPosition): Selection => ({
+  anchor: map(selection.anchor),
+  focus: map(selection.focus),
+});
+
+export const rangeContains = (range: CellRange, row: number, col: number) =>
+  row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+
+export const rangeSize = (range: CellRange) =>
+  (range.bottom - range.top + 1) * (range.right - range.left + 1);
+
+export const isSingleCell = (range: CellRange) => range.top === range.bottom && range.left === range.right;
+
+export const rangePositions = (range: CellRange): CellPosition[] => {
+  const result: CellPosition[] = [];
+  for (let row = range.top; row <= range.bottom; row++) {
+    for (let col = range.left; col <= range.right; col++) result.push({ row, col });
+  }
+  return result;
+};
+
+export const cellLabel = (columns: ColumnConfig[], row: number, col: number) =>
+  `${columns[col]?.name ?? ''}${row + 1}`;
+
+export const rangeLabel = (columns: ColumnConfig[], range: CellRange) =>
+  isSingleCell(range)
+    ? cellLabel(columns, range.top, range.left)
+    : `${cellLabel(columns, range.top, range.left)}:${cellLabel(columns, range.bottom, range.right)}`;
+
+// Распределяет распознанный текст по выделению: одна часть заполняет весь диапазон,
+// несколько частей (строки) ложатся в ячейки по порядку слева направо, сверху вниз
+export const distributeText = (text: string, range: CellRange): CellData[] => {
+  const parts = text.split(/\r?\n/).map(p => p.trim()).filter(p => p !== '');
+  if (parts.length <= 1) {
+    const value = parts[0] ?? text.trim();
+    return rangePositions(range).map(pos => ({ ...pos, value }));
+  }
+  return rangePositions(range)
+    .slice(0, parts.length)
+    .map((pos, i) => ({ ...pos, value: parts[i] }));
+};
@@ -0,0 +1,50 @@
+import { parseProject, serializeProject, type ProjectDocument, type ProjectFile } from './project-file';
+
+// Длинные ссылки обрезают мессенджеры, почтовые клиенты и часть серверов — держимся с запасом
+export const MAX_SHARE_URL_LENGTH = 8000;
+export const SHARE_ROUTE = '/view';
+
+export class ShareLinkError extends Error {}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Таблица передаётся во фрагменте (#…): он не уходит на сервер и не попадает в его журналы
+export const createShareUrl = async (document: ProjectDocument, origin: string) => {
+  const json = serializeProject(document, 0);
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  const url = `${origin}${SHARE_ROUTE}#${toBase64Url(compressed)}`;
+  if (url.length > MAX_SHARE_URL_LENGTH) {
+    throw new ShareLinkError(
+      `Таблица слишком большая для ссылки: ${url.length} символов при допустимых ${MAX_SHARE_URL_LENGTH}. ` +
+      'Отправьте файл проекта или уменьшите таблицу'
+    );
+  }
+  return url;
+};
+
+export const readShareFragment = async (fragment: string): Promise<ProjectFile> => {
+  const payload = fragment.replace(/^#/, '');
+  if (!payload) throw new ShareLinkError('Ссылка не содержит таблицы');
+  let json: string;
+  try {
+    json = new TextDecoder().decode(await transform(fromBase64Url(payload), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new ShareLinkError('Ссылка повреждена: возможно, она скопирована не полностью');
+  }
+  return parseProject(json);
+};
@@ -0,0 +1,351 @@
+import { shiftReferences, type AxisChange } from './formula/references';
+import { isFormula } from './formula/parser';
+
+export type ColumnType = 'date' | 'title' | 'info' | 'text';
+
+export interface ColumnConfig {
+  id: string;
+  name: string;
+  type: ColumnType;
+}
+
+export interface CellData {
+  row: number;
+  col: number;
+  value: string;
+}
+
+export interface SheetShape {
+  rowCount: number;
+  columns: ColumnConfig[];
+}
+
+export interface SheetData extends SheetShape {
+  cells: CellData[];
+}
+
+type Listener = () => void;
+
+// null — изменилась структура листа, точный список ячеек неизвестен
+export type CellChangeListener = (cells: { row: number; col: number }[] | null) => void;
+
+export const createId = () => Math.random().toString(36).slice(2, 10);
+
+// A, B, ..., Z, AA, AB, ...
+export const columnLabel = (index: number): string => {
+  let label = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+};
+
+const nextColumnName = (columns: ColumnConfig[]) => {
+  const used = new Set(columns.map(c => c.name));
+  let i = columns.length;
+  while (used.has(columnLabel(i))) i++;
+  return columnLabel(i);
+};
+
+export const createColumn = (name: string, type: ColumnType = 'text'): ColumnConfig => ({
+  id: createId(),
+  name,
+  type,
+});
+
+export const createDefaultColumns = (count: number): ColumnConfig[] =>
+  Array.from({ length: count }, (_, i) => createColumn(columnLabel(i)));
+
+const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Новая позиция элемента при переносе from -> to
+export const movedIndex = (index: number, from: number, to: number) => {
+  if (index === from) return to;
+  if (from < to && index > from && index <= to) return index - 1;
+  if (from > to && index >= to && index < from) return index + 1;
+  return index;
+};
+
+export const createEmptySheetData = (rowCount: number, colCount: number): SheetData => ({
+  rowCount,
+  columns: createDefaultColumns(colCount),
+  cells: [],
+});
+
+export const createSheetStore = ({ rowCount, columns: initialColumns, cells }: SheetData) => {
+  // Храним только непустые ячейки: строка -> (столбец -> значение)
+  let rows = new Map<number, Map<number, string>>();
+  let shape: SheetShape = { rowCount, columns: initialColumns };
+  const listeners = new Set<Listener>();
+  const rowListeners = new Map<number, Set<Listener>>();
+  const changeListeners = new Set<CellChangeListener>();
+  let version = 0;
+
+  const notify = (changedRows: Iterable<number>, changedCells: { row: number; col: number }[] | null = []) => {
+    version++;
+    if (changedCells === null || changedCells.length > 0) {
+      changeListeners.forEach(listener => listener(changedCells));
+    }
+    for (const row of changedRows) {
+      rowListeners.get(row)?.forEach(listener => listener());
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  const notifyAll = () => notify(Array.from(rowListeners.keys()), null);
+
+  const setShape = (patch: Partial<SheetShape>) => {
+    shape = { ...shape, ...patch };
+  };
+
+  const ensureSize = (row: number, col: number) => {
+    if (row >= shape.rowCount) setShape({ rowCount: row + 1 });
+    if (col >= shape.columns.length) {
+      const columns = [...shape.columns];
+      while (columns.length <= col) columns.push(createColumn(nextColumnName(columns)));
+      setShape({ columns });
+    }
+  };
+
+  const write = (row: number, col: number, value: string): boolean => {
+    const rowCells = rows.get(row);
+    if ((rowCells?.get(col) ?? '') === value) return false;
+
+    if (value === '') {
+      rowCells!.delete(col);
+      if (rowCells!.size === 0) rows.delete(row);
+    } else if (rowCells) {
+      rowCells.set(col, value);
+    } else {
+      rows.set(row, new Map([[col, value]]));
+    }
+    return true;
+  };
+
+  const getValue = (row: number, col: number) => rows.get(row)?.get(col) ?? '';
+
+  const setValues = (updates: CellData[]) => {
+    const changedRows = new Set<number>();
+    const changedCells: { row: number; col: number }[] = [];
+    updates.forEach(({ row, col, value }) => {
+      if (value !== '') ensureSize(row, col);
+      if (write(row, col, value)) {
+        changedRows.add(row);
+        changedCells.push({ row, col });
+      }
+    });
+    if (changedRows.size > 0) notify(changedRows, changedCells);
+  };
+
+  const getColumnCells = (col: number): CellData[] => {
+    const result: CellData[] = [];
+    rows.forEach((rowCells, row) => {
+      const value = rowCells.get(col);
+      if (value !== undefined) result.push({ row, col, value });
+    });
+    return result.sort((a, b) => a.row - b.row);
+  };
+
+  const getCells = (): CellData[] => {
+    const result: CellData[] = [];
+    rows.forEach((rowCells, row) => {
+      rowCells.forEach((value, col) => result.push({ row, col, value }));
+    });
+    return result.sort((a, b) => a.row - b.row || a.col - b.col);
+  };
+
+  const getData = (): SheetData => ({ ...shape, cells: getCells() });
+
+  const load = (data: SheetData) => {
+    rows = new Map();
+    data.cells.forEach(({ row, col, value }) => write(row, col, value));
+    setShape({ rowCount: data.rowCount, columns: data.columns });
+    notifyAll();
+  };
+
+  const clear = () => {
+    const changedRows = Array.from(rows.keys());
+    rows.clear();
+    if (changedRows.length > 0) notify(changedRows, null);
+  };
+
+  // Ссылки в формулах следуют за строками и столбцами, иначе итоги после правки тихо съезжают.
+  // Возвращает новые строки листа: rows заменяется целиком, только когда все формулы пересчитаны
+  const shiftFormulas = (source: Map<number, Map<number, string>>, change: AxisChange) => {
+    const result = new Map<number, Map<number, string>>();
+    source.forEach((rowCells, row) => {
+      const shifted = new Map<number, string>();
+      rowCells.forEach((value, col) => shifted.set(col, isFormula(value) ? shiftReferences(value, change) : value));
+      result.set(row, shifted);
+    });
+    return result;
+  };
+
+  const remapRows = (map: (row: number) => number | null, span: number) => {
+    const next = new Map<number, Map<number, string>>();
+    rows.forEach((rowCells, row) => {
+      const target = map(row);
+      if (target !== null) next.set(target, rowCells);
+    });
+    rows = shiftFormulas(next, { axis: 'row', map, span });
+  };
+
+  const remapColumns = (map: (col: number) => number | null, span: number) => {
+    const next = new Map<number, Map<number, string>>();
+    rows.forEach((rowCells, row) => {
+      const moved = new Map<number, string>();
+      rowCells.forEach((value, col) => {
+        const target = map(col);
+        if (target !== null) moved.set(target, value);
+      });
+      if (moved.size > 0) next.set(row, moved);
+    });
+    rows = shiftFormulas(next, { axis: 'col', map, span });
+  };
+
+  const insertRows = (at: number, count = 1) => {
+    remapRows(row => (row >= at ? row + count : row), at);
+    setShape({ rowCount: shape.rowCount + count });
+    notifyAll();
+  };
+
+  const deleteRows = (at: number, count = 1) => {
+    remapRows(row => (row < at ? row : row < at + count ? null : row - count), at + count);
+    setShape({ rowCount: Math.max(1, shape.rowCount - count) });
+    notifyAll();
+  };
+
+  const moveRow = (from: number, to: number) => {
+    if (from === to) return;
+    remapRows(row => movedIndex(row, from, to), Math.max(from, to) + 1);
+    notifyAll();
+  };
+
+  // order[i] — строка, которая встанет на место i (сортировка)
+  const reorderRows = (order: number[]) => {
+    const position = new Map(order.map((row, i) => [row, i]));
+    remapRows(row => position.get(row) ?? row, order.length);
+    notifyAll();
+  };
+
+  const insertColumns = (at: number, count = 1) => {
+    const columns = [...shape.columns];
+    for (let i = 0; i < count; i++) {
+      columns.splice(at + i, 0, createColumn(nextColumnName(columns)));
+    }
+    remapColumns(col => (col >= at ? col + count : col), at);
+    setShape({ columns });
+    notifyAll();
+  };
+
+  const deleteColumns = (at: number, count = 1) => {
+    if (shape.columns.length - count < 1) return;
+    const columns = [...shape.columns];
+    columns.splice(at, count);
+    remapColumns(col => (col < at ? col : col < at + count ? null : col - count), at + count);
+    setShape({ columns });
+    notifyAll();
+  };
+
+  const moveColumn = (from: number, to: number) => {
+    if (from === to) return;
+    remapColumns(col => movedIndex(col, from, to), Math.max(from, to) + 1);
+    setShape({ columns: moveItem(shape.columns, from, to) });
+    notifyAll();
+  };
+
+  const updateColumn = (col: number, patch: Partial<Omit<ColumnConfig, 'id'>>) => {
+    setShape({
+      columns: shape.columns.map((c, i) => (i === col ? { ...c, ...patch } : c)),
+    });
+    notify([]);
+  };
+
+  const setColumns = (columns: ColumnConfig[]) => {
+    setShape({ columns });
+    notify([]);
+  };
+
+  // Возврат к прежнему размеру без сдвига данных: ячейки за новой границей уже должны быть пустыми
+  const resize = (next: SheetShape) => {
+    setShape(next);
+    notifyAll();
+  };
+
+  const subscribe = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const subscribeChanges = (listener: CellChangeListener) => {
+    changeListeners.add(listener);
+    return () => {
+      changeListeners.delete(listener);
+    };
+  };
+
+  const subscribeRow = (row: number, listener: Listener) => {
+    let set = rowListeners.get(row);
+    if (!set) {
+      set = new Set();
+      rowListeners.set(row, set);
+    }
+    set.add(listener);
+    return () => {
+      set!.delete(listener);
+      if (set!.size === 0) rowListeners.delete(row);
+    };
+  };
+
+  cells.forEach(({ row, col, value }) => write(row, col, value));
+
+  return {
+    getRowCount: () => shape.rowCount,
+    getColCount: () => shape.columns.length,
+    getColumns: () => shape.columns,
+    getShape: () => shape,
+    getVersion: () => version,
+    getValue,
+    setValue: (row: number, col: number, value: string) => setValues([{ row, col, value }]),
+    setValues,
+    getColumnCells,
+    getCells,
+    getData,
+    load,
+    clear,
+    insertRows,
+    deleteRows,
+    moveRow,
+    reorderRows,
+    insertColumns,
+    deleteColumns,
+    moveColumn,
+    updateColumn,
+    setColumns,
+    resize,
+    subscribe,
+    subscribeRow,
+    subscribeChanges,
+  };
+};
+
+export type SheetStore = ReturnType<typeof createSheetStore>;
+
+// Плотная матрица значений в границах листа
+export const toMatrix = ({ rowCount, columns, cells }: SheetData): string[][] => {
+  const matrix: string[][] = Array.from({ length: rowCount }, () => Array(columns.length).fill(''));
+  cells.forEach(({ row, col, value }) => {
+    if (row < rowCount && col < columns.length) matrix[row][col] = value;
+  });
+  return matrix;
+};
@@ -0,0 +1,114 @@
+import { createId, type CellData, type SheetData } from './sheet';
+import type { SnapshotKind, StoredSnapshot } from './storage';
+import type { WorkbookSheetData } from './workbook';
+
+export const HOURLY_SNAPSHOT_MS = 60 * 60 * 1000;
+// Автоматические версии копятся быстро — храним только последние, ручные не трогаем
+export const MAX_AUTO_SNAPSHOTS = 48;
+
+export type CellChange = 'added' | 'changed' | 'removed';
+
+export interface CellDiff {
+  row: number;
+  col: number;
+  change: CellChange;
+  before: string;
+  after: string;
+}
+
+// Изменения листа по строкам: строка → столбец → разница
+export type SheetDiff = Map<number, Map<number, CellDiff>>;
+
+export const SNAPSHOT_KIND_LABELS: Record<SnapshotKind, string> = {
+  manual: 'Вручную',
+  hourly: 'Ежечасно',
+  safety: 'Автоматически',
+};
+
+export const formatSnapshotTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const createSnapshot = (
+  documentId: string,
+  name: string,
+  kind: SnapshotKind,
+  sheets: WorkbookSheetData[],
+  activeIndex: number
+): StoredSnapshot => ({
+  id: createId(),
+  documentId,
+  name,
+  kind,
+  createdAt: Date.now(),
+  activeIndex,
+  sheets,
+});
+
+const filledCells = (cells: CellData[]) => {
+  const map = new Map<string, string>();
+  cells.forEach(cell => {
+    if (cell.value !== '') map.set(`${cell.row}:${cell.col}`, cell.value);
+  });
+  return map;
+};
+
+// Сравнение по позициям ячеек: строка и столбец, как их видит пользователь
+export const diffSheet = (before: SheetData | undefined, after: SheetData): CellDiff[] => {
+  const previous = filledCells(before?.cells ?? []);
+  const diffs: CellDiff[] = [];
+  after.cells.forEach(({ row, col, value }) => {
+    const old = previous.get(`${row}:${col}`) ?? '';
+    previous.delete(`${row}:${col}`);
+    if (old === value) return;
+    diffs.push({ row, col, before: old, after: value, change: old === '' ? 'added' : value === '' ? 'removed' : 'changed' });
+  });
+  previous.forEach((value, key) => {
+    const [row, col] = key.split(':').map(Number);
+    diffs.push({ row, col, before: value, after: '', change: 'removed' });
+  });
+  return diffs.sort((a, b) => a.row - b.row || a.col - b.col);
+};
+
+export const groupDiffByRow = (diffs: CellDiff[]): SheetDiff => {
+  const byRow: SheetDiff = new Map();
+  diffs.forEach(diff => {
+    let row = byRow.get(diff.row);
+    if (!row) byRow.set(diff.row, (row = new Map()));
+    row.set(diff.col, diff);
+  });
+  return byRow;
+};
+
+// Лист из снимка ищем по названию, а если его переименовали — по позиции.
+// Листа, которого в версии не было, сравниваем с пустым: всё в нём — добавленное
+export const snapshotSheet = (snapshot: StoredSnapshot, name: string, index: number): SheetData =>
+  snapshot.sheets.find(s => s.name === name) ?? snapshot.sheets[index] ?? { rowCount: 0, columns: [], cells: [] };
+
+export const countChanges = (diffs: CellDiff[]) => {
+  const counts: Record<CellChange, number> = { added: 0, changed: 0, removed: 0 };
+  diffs.forEach(diff => counts[diff.change]++);
+  return counts;
+};
+
+export const isSameContent = (a: WorkbookSheetData[], b: WorkbookSheetData[]) =>
+  a.length === b.length &&
+  a.every((sheet, i) =>
+    sheet.name === b[i].name &&
+    sheet.rowCount === b[i].rowCount &&
+    JSON.stringify(sheet.columns) === JSON.stringify(b[i].columns) &&
+    diffSheet(b[i], sheet).length === 0
+  );
+
+// Какие автоматические версии пора удалить, чтобы их осталось не больше лимита
+export const snapshotsToPrune = (snapshots: StoredSnapshot[], limit = MAX_AUTO_SNAPSHOTS) =>
+  snapshots
+    .filter(s => s.kind !== 'manual')
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(limit)
+    .map(s => s.id);
@@ -0,0 +1,60 @@
+import type { ColumnType } from './sheet';
+
+export type SortDirection = 'asc' | 'desc';
+
+const DATE_PATTERN = /^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+
+// 05.03.2024, 5/3/24 (день идёт первым) или 2024-03-05 -> метка времени
+export const parseDateValue = (value: string): number | null => {
+  const trimmed = value.trim();
+  const ru = DATE_PATTERN.exec(trimmed);
+  const iso = ISO_DATE_PATTERN.exec(trimmed);
+  if (!ru && !iso) return null;
+
+  const [day, month, year] = ru
+    ? [Number(ru[1]), Number(ru[2]), Number(ru[3].length === 2 ? `20${ru[3]}` : ru[3])]
+    : [Number(iso![3]), Number(iso![2]), Number(iso![1])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCDate() === day && date.getUTCMonth() === month - 1 ? date.getTime() : null;
+};
+
+// Пробелы внутри числа — разделители разрядов, запятая — десятичный разделитель
+export const parseNumberValue = (value: string): number | null => {
+  const normalized = value.trim().replace(/\s/g, '').replace(',', '.');
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : null;
+};
+
+// Даты сравниваются как даты, числа — как числа, остальное — по алфавиту с учётом цифр
+export const compareCellValues = (a: string, b: string, type: ColumnType) => {
+  if (type === 'date') {
+    const da = parseDateValue(a);
+    const db = parseDateValue(b);
+    if (da !== null && db !== null) return da - db;
+    if (da !== null || db !== null) return da !== null ? -1 : 1;
+  }
+  const na = parseNumberValue(a);
+  const nb = parseNumberValue(b);
+  if (na !== null && nb !== null) return na - nb;
+  if (na !== null || nb !== null) return na !== null ? -1 : 1;
+  return a.localeCompare(b, 'ru', { numeric: true, sensitivity: 'base' });
+};
+
+// Новый порядок строк: order[i] — какая строка окажется на месте i. Пустые значения всегда внизу
+export const sortedRowOrder = (
+  rowCount: number,
+  getValue: (row: number) => string,
+  type: ColumnType,
+  direction: SortDirection
+) => {
+  const rows = Array.from({ length: rowCount }, (_, row) => ({ row, value: getValue(row) }));
+  const sign = direction === 'asc' ? 1 : -1;
+  return rows
+    .sort((a, b) => {
+      const aEmpty = a.value.trim() === '';
+      const bEmpty = b.value.trim() === '';
+      if (aEmpty || bEmpty) return aEmpty === bEmpty ? a.row - b.row : aEmpty ? 1 : -1;
+      return sign * compareCellValues(a.value, b.value, type) || a.row - b.row;
+    })
+    .map(r => r.row);
+};
@@ -0,0 +1,113 @@
+import { FormulaSyntaxError, isFormula } from './formula/parser';
+import { importSizeError, type ImportedSheet } from './import';
+import { parseNumberValue } from './sort';
+import { toMatrix, type ColumnConfig } from './sheet';
+import type { WorkbookSheet } from './workbook';
+
+// Общее для файлов табличных редакторов: .xlsx и .ods
+
+export class SpreadsheetImportError extends Error {}
+
+export const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+// Управляющие символы недопустимы в XML 1.0 — Excel отказывается открывать такой файл
+export const escapeXml = (value: string) =>
+  value
+    .replace(/[^\t\n\r\u0020-\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Excel ограничивает имя листа 31 символом и запрещает []:*?/\
+export const worksheetName = (name: string, used: Set<string>) => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || 'Лист';
+  let result = base;
+  for (let i = 2; used.has(result.toLowerCase()); i++) {
+    result = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+  }
+  used.add(result.toLowerCase());
+  return result;
+};
+
+// Ведущие нули (артикулы, индексы) и длинные номера числами не считаем: Excel их исказит
+export const numericValue = (value: string) => {
+  const number = parseNumberValue(value);
+  if (number === null) return null;
+  const digits = value.replace(/[^\d]/g, '');
+  return /^-?0\d/.test(value.trim().replace(/\s/g, '')) || digits.length > 15 ? null : number;
+};
+
+// Строки листа без пустого хвоста; displayed — то, что видно в ячейках, с вычисленными формулами
+export const sheetRows = ({ store, formulas }: WorkbookSheet) => {
+  const data = store.getData();
+  const matrix = toMatrix(data);
+  let lastRow = matrix.length;
+  while (lastRow > 0 && matrix[lastRow - 1].every(v => v === '')) lastRow--;
+  const rows = matrix.slice(0, lastRow);
+  const displayed = rows.map((row, r) => row.map((value, c) => (isFormula(value) ? formulas.getDisplayValue(r, c) : value)));
+  return { data, rows, displayed };
+};
+
+// Формула с синтаксической ошибкой выгружается только значением: иначе из-за одной ячейки не соберётся весь файл
+export const exportFormula = (formula: string, convert: (formula: string) => string) => {
+  try {
+    return convert(formula);
+  } catch (e) {
+    if (e instanceof FormulaSyntaxError) return '';
+    throw e;
+  }
+};
+
+// Ширина по самому длинному значению в столбце, в символах
+export const columnWidths = (columns: ColumnConfig[], matrix: string[][]) =>
+  columns.map((column, c) => {
+    const longest = matrix.reduce(
+      (max, row) => Math.max(max, ...row[c].split('\n').map(line => line.length)),
+      column.name.length
+    );
+    return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, column.type === 'date' ? 11 : 0, longest + 2));
+  });
+
+export interface DateTimeFormat {
+  date: boolean;
+  time: boolean;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Даты — ДД.ММ.ГГГГ, как их вводят голосом и понимает сортировка; время — ЧЧ:ММ[:СС]
+export const formatTimestamp = (ms: number, format: DateTimeFormat) => {
+  const d = new Date(Math.round(ms));
+  const date = `${pad(d.getUTCDate())}.${pad(d.getUTCMonth() + 1)}.${d.getUTCFullYear()}`;
+  const seconds = d.getUTCSeconds() ? `:${pad(d.getUTCSeconds())}` : '';
+  const time = `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}${seconds}`;
+  if (!format.time) return date;
+  if (!format.date) return time;
+  return `${date} ${time}`;
+};
+
+// 0.1 + 0.2 в файле хранится как 0.30000000000000004 — округляем до точности Excel
+export const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(15))));
+
+// Слишком большой лист отклоняется сразу при чтении файла, до диалога импорта
+export const checkImportedSheet = (sheet: ImportedSheet) => {
+  const error = importSizeError(sheet.rows);
+  if (error) throw new SpreadsheetImportError(`Лист «${sheet.name}»: ${error}`);
+  return sheet;
+};
+
+export const parseXml = (text: string, part: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new SpreadsheetImportError(`Файл повреждён: не читается ${part}`);
+  return doc;
+};
+
+// Пространство имён у частей книги бывает разным (transitional, strict, префикс x:), поэтому ищем по локальному имени
+export const elements = (root: Document | Element, name: string) => Array.from(root.getElementsByTagNameNS('*', name));
+
+export const children = (parent: Element, name: string) => Array.from(parent.children).filter(el => el.localName === name);
@@ -0,0 +1,235 @@
+import type { ProjectOrigin } from './project-file';
+import type { CellRange } from './selection';
+import type { WorkbookSheetData } from './workbook';
+
+const DB_NAME = 'voice-to-excel';
+const DB_VERSION = 3;
+const DOCUMENTS = 'documents';
+const SNAPSHOTS = 'snapshots';
+const OCR_QUEUE = 'ocrQueue';
+
+// Состояние синхронизации с сервером: base и baseName — листы и название на момент последней синхронизации,
+// от них считается трёхстороннее слияние; dirty — есть правки, ещё не отправленные на сервер.
+// baseName нет у состояний, записанных до того, как название стало сливаться
+export interface SyncState {
+  revision: number;
+  dirty: boolean;
+  base: WorkbookSheetData[];
+  baseName?: string;
+}
+
+export interface StoredDocument {
+  id: string;
+  name: string;
+  updatedAt: number;
+  activeIndex: number;
+  sheets: WorkbookSheetData[];
+  sync?: SyncState;
+  // Документы, созданные до появления поля, его не имеют
+  createdAt?: number;
+  // Заполнено у документов, открытых из файла проекта или по ссылке
+  origin?: ProjectOrigin;
+}
+
+export interface DocumentSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  sheetNames: string[];
+  filledCells: number;
+  syncStatus: 'local' | 'synced' | 'dirty';
+}
+
+// manual — сохранён пользователем, hourly — раз в час, если были правки, safety — перед опасным действием
+export type SnapshotKind = 'manual' | 'hourly' | 'safety';
+
+export interface StoredSnapshot {
+  id: string;
+  documentId: string;
+  name: string;
+  kind: SnapshotKind;
+  createdAt: number;
+  activeIndex: number;
+  sheets: WorkbookSheetData[];
+}
+
+// Фото, снятое без сети: ждёт отправки на распознавание вместе с адресом ячеек, куда вставить текст
+export interface QueuedPhoto {
+  id: string;
+  documentId: string;
+  // Лист ищется по id; название — для сообщений. Фото, отложенные до появления sheetId, его не имеют
+  sheetId?: string;
+  sheetName: string;
+  range: CellRange;
+  image: Blob;
+  createdAt: number;
+}
+
+// Документы, сохранённые до появления библиотеки, не имеют названия
+const UNTITLED = 'Без названия';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB недоступна'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(DOCUMENTS)) {
+        request.result.createObjectStore(DOCUMENTS, { keyPath: 'id' });
+      }
+      if (!request.result.objectStoreNames.contains(SNAPSHOTS)) {
+        request.result.createObjectStore(SNAPSHOTS, { keyPath: 'id' }).createIndex('documentId', 'documentId');
+      }
+      if (!request.result.objectStoreNames.contains(OCR_QUEUE)) {
+        request.result.createObjectStore(OCR_QUEUE, { keyPath: 'id' }).createIndex('documentId', 'documentId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    // Следующая попытка снова откроет базу, а не получит ту же ошибку
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Ошибка квоты приходит через abort транзакции, а не через сам запрос
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+export const loadDocument = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENTS, 'readonly');
+  const document = await requestResult<StoredDocument | undefined>(tx.objectStore(DOCUMENTS).get(id));
+  return document ? { ...document, name: document.name || UNTITLED } : null;
+};
+
+export const listDocuments = async (): Promise<DocumentSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENTS, 'readonly');
+  const documents = await requestResult<StoredDocument[]>(tx.objectStore(DOCUMENTS).getAll());
+  return documents
+    .map(({ id, name, updatedAt, sheets, sync }) => ({
+      id,
+      name: name || UNTITLED,
+      updatedAt,
+      sheetNames: sheets.map(s => s.name),
+      filledCells: sheets.reduce((sum, s) => sum + s.cells.filter(c => c.value !== '').length, 0),
+      syncStatus: !sync ? 'local' as const : sync.dirty ? 'dirty' as const : 'synced' as const,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveDocument = async (document: StoredDocument) => {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENTS, 'readwrite');
+  tx.objectStore(DOCUMENTS).put(document);
+  await transactionDone(tx);
+};
+
+// Чтение и запись в одной транзакции: параллельное переименование не затрётся автосохранением
+export const updateDocument = async (id: string, update: (document: StoredDocument | undefined) => StoredDocument | null) => {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENTS, 'readwrite');
+  const store = tx.objectStore(DOCUMENTS);
+  const next = update(await requestResult<StoredDocument | undefined>(store.get(id)));
+  if (next) store.put(next);
+  await transactionDone(tx);
+};
+
+export const saveDocumentContent = (id: string, content: Pick<StoredDocument, 'activeIndex' | 'sheets'>) =>
+  updateDocument(id, current => ({
+    ...current,
+    id,
+    name: current?.name || UNTITLED,
+    ...content,
+    updatedAt: Date.now(),
+    sync: current?.sync && { ...current.sync, dirty: true },
+  }));
+
+export const renameDocument = (id: string, name: string) =>
+  updateDocument(id, current => (current ? { ...current, name, sync: current.sync && { ...current.sync, dirty: true } } : null));
+
+// Вместе с документом удаляются его версии и неотправленные фото
+export const deleteDocument = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([DOCUMENTS, SNAPSHOTS, OCR_QUEUE], 'readwrite');
+  tx.objectStore(DOCUMENTS).delete(id);
+  for (const name of [SNAPSHOTS, OCR_QUEUE]) {
+    const store = tx.objectStore(name);
+    const keys = await requestResult(store.index('documentId').getAllKeys(id));
+    keys.forEach(key => store.delete(key));
+  }
+  await transactionDone(tx);
+};
+
+export const listSnapshots = async (documentId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS, 'readonly');
+  const snapshots = await requestResult<StoredSnapshot[]>(tx.objectStore(SNAPSHOTS).index('documentId').getAll(documentId));
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveSnapshot = async (snapshot: StoredSnapshot) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS, 'readwrite');
+  tx.objectStore(SNAPSHOTS).put(snapshot);
+  await transactionDone(tx);
+};
+
+export const deleteSnapshots = async (ids: string[]) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS, 'readwrite');
+  ids.forEach(id => tx.objectStore(SNAPSHOTS).delete(id));
+  await transactionDone(tx);
+};
+
+export const listQueuedPhotos = async (documentId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(OCR_QUEUE, 'readonly');
+  const photos = await requestResult<QueuedPhoto[]>(tx.objectStore(OCR_QUEUE).index('documentId').getAll(documentId));
+  return photos.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const queuePhoto = async (photo: QueuedPhoto) => {
+  const db = await openDatabase();
+  const tx = db.transaction(OCR_QUEUE, 'readwrite');
+  tx.objectStore(OCR_QUEUE).put(photo);
+  await transactionDone(tx);
+};
+
+export const removeQueuedPhoto = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(OCR_QUEUE, 'readwrite');
+  tx.objectStore(OCR_QUEUE).delete(id);
+  await transactionDone(tx);
+};
+
+// Просим браузер не вытеснять данные при нехватке места; отказ не мешает работе
+export const requestPersistentStorage = async () => {
+  try {
+    if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+      await navigator.storage.persist();
+    }
+  } catch {
+    // Не поддерживается — остаётся обычное хранилище
+  }
+};
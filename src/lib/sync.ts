@@ -0,0 +1,272 @@
+import { z } from 'zod';
+import { createBlankSheetData } from './documents';
+import { mergeDocuments, type MergeConflict, type MergeContent } from './merge';
+import { sheetSchema } from './project-file';
+import { isSameContent } from './snapshots';
+import {
+  listDocuments,
+  loadDocument,
+  saveDocument,
+  updateDocument,
+  type StoredDocument,
+} from './storage';
+import type { WorkbookSheetData } from './workbook';
+
+export interface RemoteSummary {
+  id: string;
+  name: string;
+  revision: number;
+  updatedAt: number;
+}
+
+export interface RemoteDocument extends RemoteSummary {
+  activeIndex: number;
+  sheets: WorkbookSheetData[];
+}
+
+export type RemoteContent = Pick<RemoteDocument, 'name' | 'activeIndex' | 'sheets'>;
+
+// Контракт удалённого хранилища. put принимает ревизию, от которой сделаны правки,
+// и отклоняет запись, если на сервере уже более новая ревизия
+export interface SyncAdapter {
+  list: () => Promise<RemoteSummary[]>;
+  get: (id: string) => Promise<RemoteDocument | null>;
+  put: (id: string, content: RemoteContent, baseRevision: number) => Promise<{ revision: number; updatedAt: number }>;
+}
+
+export class SyncNetworkError extends Error {}
+
+// remote — версия с сервера из ответа 409; null, если сервер её не прислал или прислал повреждённой
+export class SyncConflictError extends Error {
+  constructor(public remote: RemoteDocument | null) {
+    super('На сервере более новая версия документа');
+  }
+}
+
+// Ответы сервера проверяются так же строго, как файлы проекта: слияние с битым документом испортило бы локальный
+const remoteSummarySchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  revision: z.number().int().nonnegative(),
+  updatedAt: z.number(),
+});
+
+const remoteDocumentSchema = remoteSummarySchema.extend({
+  activeIndex: z.number().int().nonnegative(),
+  sheets: z.array(sheetSchema).min(1),
+});
+
+const putResultSchema = z.object({
+  revision: z.number().int().positive(),
+  updatedAt: z.number(),
+});
+
+const conflictSchema = z.object({ document: remoteDocumentSchema });
+
+const ENDPOINT_KEY = 'voice-to-excel:sync-endpoint';
+const IGNORED_KEY = 'voice-to-excel:sync-ignored';
+
+export const getSyncEndpoint = () => localStorage.getItem(ENDPOINT_KEY) ?? import.meta.env.VITE_SYNC_URL ?? '';
+
+export const setSyncEndpoint = (endpoint: string) => {
+  localStorage.setItem(ENDPOINT_KEY, endpoint.trim().replace(/\/+$/, ''));
+};
+
+// Удалённые у себя документы не скачиваются с сервера обратно при следующей синхронизации.
+// Испорченное значение не должно ломать каждую синхронизацию — тогда список считается пустым
+const ignoredRemoteIds = (): string[] => {
+  try {
+    const ids: unknown = JSON.parse(localStorage.getItem(IGNORED_KEY) ?? '[]');
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const ignoreRemoteDocument = (id: string) => {
+  localStorage.setItem(IGNORED_KEY, JSON.stringify([...new Set([...ignoredRemoteIds(), id])]));
+};
+
+export const createRestAdapter = (endpoint: string): SyncAdapter => {
+  const request = async (path: string, init?: RequestInit) => {
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init?.headers },
+      });
+    } catch (error) {
+      throw new SyncNetworkError(error instanceof Error ? error.message : 'Сервер недоступен');
+    }
+    return response;
+  };
+
+  const failed = (response: Response) => new SyncNetworkError(`Сервер ответил ${response.status}`);
+
+  // Ответ, не подходящий под контракт, — такая же ошибка сервера, как недоступность
+  const parse = async <T>(response: Response, schema: z.ZodType<T>, message: string) => {
+    const result = schema.safeParse(await response.json().catch(() => null));
+    if (!result.success) throw new SyncNetworkError(message);
+    return result.data;
+  };
+
+  return {
+    list: async () => {
+      const response = await request('/documents');
+      if (!response.ok) throw failed(response);
+      return parse(response, z.array(remoteSummarySchema), 'Сервер вернул повреждённый список документов');
+    },
+    get: async (id) => {
+      const response = await request(`/documents/${encodeURIComponent(id)}`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw failed(response);
+      return parse(response, remoteDocumentSchema, 'Сервер вернул повреждённый документ');
+    },
+    put: async (id, content, baseRevision) => {
+      const response = await request(`/documents/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ baseRevision, document: content }),
+      });
+      if (response.status === 409) {
+        const result = conflictSchema.safeParse(await response.json().catch(() => null));
+        throw new SyncConflictError(result.success ? result.data.document : null);
+      }
+      if (!response.ok) throw failed(response);
+      return parse(response, putResultSchema, 'Сервер не подтвердил запись');
+    },
+  };
+};
+
+export type SyncOutcome =
+  | { status: 'unchanged' | 'pushed' }
+  | { status: 'pulled' | 'merged'; document: StoredDocument }
+  | { status: 'conflict'; local: StoredDocument; remote: RemoteDocument; merged: MergeContent; conflicts: MergeConflict[] };
+
+const contentOf = ({ name, activeIndex, sheets }: StoredDocument): RemoteContent => ({ name, activeIndex, sheets });
+
+// Пока шла отправка, автосохранение могло записать новые правки — тогда документ остаётся «грязным»
+const markSynced = (id: string, revision: number, sent: MergeContent) =>
+  updateDocument(id, current => (current
+    ? {
+        ...current,
+        sync: {
+          revision,
+          dirty: !isSameContent(current.sheets, sent.sheets) || current.name !== sent.name,
+          base: sent.sheets,
+          baseName: sent.name,
+        },
+      }
+    : null));
+
+const push = async (adapter: SyncAdapter, document: StoredDocument, baseRevision: number) => {
+  const { revision } = await adapter.put(document.id, contentOf(document), baseRevision);
+  await markSynced(document.id, revision, document);
+};
+
+// Сервер хранит только содержимое: дата создания и происхождение остаются от локальной копии
+const adoptRemote = async (remote: RemoteDocument, local?: StoredDocument): Promise<StoredDocument> => {
+  const document: StoredDocument = {
+    createdAt: local?.createdAt,
+    origin: local?.origin,
+    id: remote.id,
+    name: remote.name,
+    updatedAt: Date.now(),
+    activeIndex: remote.activeIndex,
+    sheets: remote.sheets,
+    sync: { revision: remote.revision, dirty: false, base: remote.sheets, baseName: remote.name },
+  };
+  await saveDocument(document);
+  return document;
+};
+
+const mergeWithRemote = async (adapter: SyncAdapter, local: StoredDocument, remote: RemoteDocument): Promise<SyncOutcome> => {
+  const { conflicts, ...result } = mergeDocuments({ name: local.sync?.baseName, sheets: local.sync?.base ?? [] }, local, remote);
+  const merged = {
+    name: result.name,
+    sheets: result.sheets.length > 0 ? result.sheets : [{ name: 'Лист 1', ...createBlankSheetData() }],
+  };
+  if (conflicts.length > 0) {
+    return { status: 'conflict', local, remote, merged, conflicts };
+  }
+  return { status: 'merged', document: await applyMerge(adapter, local, remote, merged) };
+};
+
+// Итог слияния записывается поверх ревизии сервера; если сервер успел уйти вперёд — сливаем заново
+export const applyMerge = async (
+  adapter: SyncAdapter,
+  local: StoredDocument,
+  remote: RemoteDocument,
+  { name, sheets }: MergeContent
+): Promise<StoredDocument> => {
+  const document: StoredDocument = {
+    ...local,
+    name,
+    sheets,
+    activeIndex: Math.min(local.activeIndex, sheets.length - 1),
+    updatedAt: Date.now(),
+    sync: { revision: remote.revision, dirty: true, base: remote.sheets, baseName: remote.name },
+  };
+  await saveDocument(document);
+  await push(adapter, document, remote.revision);
+  return document;
+};
+
+export const syncDocument = async (adapter: SyncAdapter, id: string): Promise<SyncOutcome> => {
+  const local = await loadDocument(id);
+  if (!local) return { status: 'unchanged' };
+  const remote = await adapter.get(id);
+
+  try {
+    if (!remote) {
+      await push(adapter, local, 0);
+      return { status: 'pushed' };
+    }
+    // Документ с таким id уже есть на сервере, а общей истории нет — сливаем от пустого состояния
+    if (!local.sync) return await mergeWithRemote(adapter, local, remote);
+
+    if (!local.sync.dirty) {
+      if (remote.revision === local.sync.revision) return { status: 'unchanged' };
+      return { status: 'pulled', document: await adoptRemote(remote, local) };
+    }
+    if (remote.revision === local.sync.revision) {
+      if (isSameContent(local.sheets, local.sync.base) && local.name === remote.name) {
+        await markSynced(id, remote.revision, local);
+        return { status: 'unchanged' };
+      }
+      await push(adapter, local, remote.revision);
+      return { status: 'pushed' };
+    }
+    return await mergeWithRemote(adapter, local, remote);
+  } catch (error) {
+    if (!(error instanceof SyncConflictError)) throw error;
+    // Сервер не прислал свою версию — запрашиваем её сами; если документа там уже нет, отправляем заново
+    const current = error.remote ?? (await adapter.get(id));
+    if (current) return mergeWithRemote(adapter, local, current);
+    await push(adapter, local, 0);
+    return { status: 'pushed' };
+  }
+};
+
+export interface SyncReport {
+  outcomes: { id: string; outcome: SyncOutcome }[];
+  created: number;
+}
+
+// Все локальные документы по очереди, затем новые документы с сервера
+export const syncAll = async (adapter: SyncAdapter): Promise<SyncReport> => {
+  const [local, remote] = await Promise.all([listDocuments(), adapter.list()]);
+  const outcomes: SyncReport['outcomes'] = [];
+  for (const { id } of local) {
+    outcomes.push({ id, outcome: await syncDocument(adapter, id) });
+  }
+
+  const known = new Set([...local.map(d => d.id), ...ignoredRemoteIds()]);
+  let created = 0;
+  for (const summary of remote.filter(d => !known.has(d.id))) {
+    const document = await adapter.get(summary.id);
+    if (!document) continue;
+    await adoptRemote(document);
+    created++;
+  }
+  return { outcomes, created };
+};
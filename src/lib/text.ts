@@ -0,0 +1,16 @@
+export type CaseMode = 'upper' | 'lower' | 'sentence' | 'title';
+
+export const changeCase = (value: string, mode: CaseMode): string => {
+  switch (mode) {
+    case 'upper': return value.toLocaleUpperCase('ru-RU');
+    case 'lower': return value.toLocaleLowerCase('ru-RU');
+    case 'sentence': {
+      const lower = value.toLocaleLowerCase('ru-RU');
+      return lower.charAt(0).toLocaleUpperCase('ru-RU') + lower.slice(1);
+    }
+    case 'title':
+      return value
+        .toLocaleLowerCase('ru-RU')
+        .replace(/(^|[\s-])(\S)/g, (_, sep: string, ch: string) => sep + ch.toLocaleUpperCase('ru-RU'));
+  }
+};
@@ -0,0 +1,146 @@
+import { createFormulaEngine, type FormulaEngine } from './formula/engine';
+import { createId, createSheetStore, type SheetData, type SheetStore } from './sheet';
+
+export interface WorkbookSheet {
+  id: string;
+  name: string;
+  store: SheetStore;
+  formulas: FormulaEngine;
+}
+
+export interface WorkbookState {
+  sheets: WorkbookSheet[];
+  activeId: string;
+}
+
+export interface WorkbookSheetData extends SheetData {
+  name: string;
+  // Постоянный id листа: по нему отложенные фото находят лист после переименования и перезагрузки.
+  // У документов, сохранённых раньше, и у листов из импортированных файлов его нет
+  id?: string;
+}
+
+type Listener = () => void;
+
+const createSheet = (name: string, data: SheetData, id = createId()): WorkbookSheet => {
+  const store = createSheetStore(data);
+  return { id, name, store, formulas: createFormulaEngine(store) };
+};
+
+// Сохранённые id переходят в книгу; недостающие и повторяющиеся заменяются новыми
+const restoreSheets = (data: WorkbookSheetData[]) => {
+  const used = new Set<string>();
+  return data.map(({ name, id, ...sheet }) => {
+    const sheetId = id && !used.has(id) ? id : createId();
+    used.add(sheetId);
+    return createSheet(name, sheet, sheetId);
+  });
+};
+
+const uniqueSheetName = (sheets: WorkbookSheet[], base: string) => {
+  const used = new Set(sheets.map(s => s.name));
+  if (!used.has(base)) return base;
+  let i = 2;
+  while (used.has(`${base} ${i}`)) i++;
+  return `${base} ${i}`;
+};
+
+export const createWorkbookStore = (initialSheets: WorkbookSheetData[], createBlankSheet: () => SheetData) => {
+  const sheets = restoreSheets(initialSheets);
+  let state: WorkbookState = { sheets, activeId: sheets[0].id };
+  const listeners = new Set<Listener>();
+
+  const setState = (patch: Partial<WorkbookState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  const indexOf = (id: string) => state.sheets.findIndex(s => s.id === id);
+
+  const addSheet = () => {
+    const sheet = createSheet(uniqueSheetName(state.sheets, `Лист ${state.sheets.length + 1}`), createBlankSheet());
+    setState({ sheets: [...state.sheets, sheet], activeId: sheet.id });
+    return sheet;
+  };
+
+  const duplicateSheet = (id: string) => {
+    const index = indexOf(id);
+    if (index === -1) return;
+    const source = state.sheets[index];
+    const sheet = createSheet(uniqueSheetName(state.sheets, `${source.name} (копия)`), source.store.getData());
+    const next = [...state.sheets];
+    next.splice(index + 1, 0, sheet);
+    setState({ sheets: next, activeId: sheet.id });
+    return sheet;
+  };
+
+  const renameSheet = (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setState({ sheets: state.sheets.map(s => (s.id === id ? { ...s, name: trimmed } : s)) });
+  };
+
+  const moveSheet = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...state.sheets];
+    const [sheet] = next.splice(from, 1);
+    next.splice(to, 0, sheet);
+    setState({ sheets: next });
+  };
+
+  const deleteSheet = (id: string) => {
+    if (state.sheets.length <= 1) return;
+    const index = indexOf(id);
+    if (index === -1) return;
+    const next = state.sheets.filter(s => s.id !== id);
+    const activeId = state.activeId === id ? next[Math.min(index, next.length - 1)].id : state.activeId;
+    setState({ sheets: next, activeId });
+  };
+
+  // Заменить все листы книги — восстановление сохранённого документа
+  const replaceSheets = (data: WorkbookSheetData[], activeIndex = 0) => {
+    if (data.length === 0) return;
+    const next = restoreSheets(data);
+    setState({ sheets: next, activeId: next[Math.min(Math.max(activeIndex, 0), next.length - 1)].id });
+  };
+
+  // Листы из импортированного файла встают в конец книги, первый из них становится активным
+  const appendSheets = (data: WorkbookSheetData[]) => {
+    if (data.length === 0) return;
+    const next = [...state.sheets];
+    const added = data.map(({ name, ...sheet }) => {
+      const created = createSheet(uniqueSheetName(next, name), sheet);
+      next.push(created);
+      return created;
+    });
+    setState({ sheets: next, activeId: added[0].id });
+  };
+
+  const setActive = (id: string) => {
+    if (id !== state.activeId && indexOf(id) !== -1) setState({ activeId: id });
+  };
+
+  const subscribe = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    getState: () => state,
+    getActiveSheet: () => state.sheets[indexOf(state.activeId)],
+    getData: (): WorkbookSheetData[] => state.sheets.map(s => ({ id: s.id, name: s.name, ...s.store.getData() })),
+    addSheet,
+    duplicateSheet,
+    renameSheet,
+    moveSheet,
+    deleteSheet,
+    replaceSheets,
+    appendSheets,
+    setActive,
+    subscribe,
+  };
+};
+
+export type WorkbookStore = ReturnType<typeof createWorkbookStore>;
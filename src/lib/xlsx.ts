@@ -0,0 +1,345 @@
+import { isError, type CellValue } from './formula/evaluate';
+import { isFormula, parseRef, toA1 } from './formula/parser';
+import { trimRows, type ImportedSheet } from './import';
+import { parseDateValue } from './sort';
+import { columnLabel, type ColumnConfig } from './sheet';
+import {
+  checkImportedSheet,
+  children,
+  columnWidths,
+  DAY_MS,
+  elements,
+  escapeXml,
+  exportFormula,
+  formatNumber,
+  formatTimestamp,
+  numericValue,
+  parseXml,
+  sheetRows,
+  SpreadsheetImportError,
+  worksheetName,
+  XML_HEADER,
+  type DateTimeFormat,
+} from './spreadsheet';
+import type { WorkbookSheet } from './workbook';
+import { createZip, openZip, ZipError } from './zip';
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Номера стилей из styles.xml: 1 — жирный заголовок, 2 — дата
+const HEADER_STYLE = 1;
+const DATE_STYLE = 2;
+
+// Серийный номер даты в Excel отсчитывается от 30.12.1899, в книгах «1904» — от 01.01.1904
+const EXCEL_EPOCH_OFFSET = 25569;
+const EXCEL_1904_EPOCH_OFFSET = 24107;
+
+const stringCell = (ref: string, value: string, style = 0) =>
+  `<c r="${ref}"${style ? ` s="${style}"` : ''} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+const literalCell = (ref: string, value: string, column: ColumnConfig) => {
+  if (column.type === 'date') {
+    const timestamp = parseDateValue(value);
+    if (timestamp !== null) return `<c r="${ref}" s="${DATE_STYLE}"><v>${timestamp / DAY_MS + EXCEL_EPOCH_OFFSET}</v></c>`;
+  }
+  const number = numericValue(value);
+  return number === null ? stringCell(ref, value) : `<c r="${ref}"><v>${number}</v></c>`;
+};
+
+// Коды ошибок, которые знает Excel; на другие (#CYCLE!, #ERROR!) он предлагает «восстановить» файл
+const EXCEL_ERRORS = new Set(['#NULL!', '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A']);
+
+const computedCell = (ref: string, value: CellValue, formula = '') => {
+  const f = formula && `<f>${escapeXml(formula)}</f>`;
+  if (isError(value) && EXCEL_ERRORS.has(value.error)) return `<c r="${ref}" t="e">${f}<v>${escapeXml(value.error)}</v></c>`;
+  if (isError(value)) return f ? `<c r="${ref}" t="str">${f}<v>${escapeXml(value.error)}</v></c>` : stringCell(ref, value.error);
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}">${f}<v>${value}</v></c>` : `<c r="${ref}" t="e">${f}<v>#NUM!</v></c>`;
+  }
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b">${f}<v>${value ? 1 : 0}</v></c>`;
+  if (!f) return stringCell(ref, value);
+  return `<c r="${ref}" t="str">${f}<v>${escapeXml(value)}</v></c>`;
+};
+
+const worksheetXml = (sheet: WorkbookSheet, keepFormulas: boolean, isActive: boolean) => {
+  const { formulas } = sheet;
+  const { data, rows, displayed } = sheetRows(sheet);
+  const lastRow = rows.length;
+
+  const header = `<row r="1">${data.columns.map((column, c) => stringCell(`${columnLabel(c)}1`, column.name, HEADER_STYLE)).join('')}</row>`;
+  // Первая строка файла — заголовки, поэтому данные и ссылки в формулах сдвинуты на одну строку
+  const body = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnLabel(c)}${r + 2}`;
+      if (value === '') return '';
+      if (!isFormula(value)) return literalCell(ref, value, data.columns[c]);
+      return computedCell(ref, formulas.getValue(r, c), keepFormulas ? exportFormula(value, f => toA1(f, 1)) : '');
+    });
+    return `<row r="${r + 2}">${cells.join('')}</row>`;
+  });
+
+  const cols = columnWidths(data.columns, displayed)
+    .map((width, c) => `<col min="${c + 1}" max="${c + 1}" width="${width}" customWidth="1"/>`)
+    .join('');
+  const lastCell = `${columnLabel(Math.max(data.columns.length, 1) - 1)}${lastRow + 1}`;
+
+  return XML_HEADER + [
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">`,
+    `<dimension ref="A1:${lastCell}"/>`,
+    `<sheetViews><sheetView workbookViewId="0"${isActive ? ' tabSelected="1"' : ''}>`,
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>',
+    '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>',
+    '</sheetView></sheetViews>',
+    '<sheetFormatPr defaultRowHeight="15"/>',
+    cols && `<cols>${cols}</cols>`,
+    `<sheetData>${header}${body.join('')}</sheetData>`,
+    '</worksheet>',
+  ].join('');
+};
+
+const STYLES_XML = XML_HEADER + [
+  `<styleSheet xmlns="${MAIN_NS}">`,
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/><family val="2"/></font>',
+  '<font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font></fonts>',
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="3">',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+  // 14 — встроенный короткий формат даты, Excel показывает его в локали пользователя
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+  '</cellXfs>',
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+  '</styleSheet>',
+].join('');
+
+// Книга Office Open XML: все листы, первая строка каждого — названия столбцов, закреплена при прокрутке.
+// keepFormulas — сохранить формулы вместе с вычисленными значениями, иначе только значения
+export const workbookToXlsx = (sheets: WorkbookSheet[], activeIndex: number, keepFormulas: boolean) => {
+  const usedNames = new Set<string>();
+  const names = sheets.map(sheet => worksheetName(sheet.name, usedNames));
+  const active = Math.max(0, Math.min(activeIndex, sheets.length - 1));
+
+  const contentTypes = XML_HEADER + [
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+    ...sheets.map((_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ),
+    '</Types>',
+  ].join('');
+
+  const rootRels = XML_HEADER +
+    `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+
+  const workbook = XML_HEADER + [
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">`,
+    `<bookViews><workbookView activeTab="${active}"/></bookViews>`,
+    '<sheets>',
+    ...names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`),
+    '</sheets>',
+    '<calcPr calcId="0" fullCalcOnLoad="1"/>',
+    '</workbook>',
+  ].join('');
+
+  const workbookRels = XML_HEADER + [
+    `<Relationships xmlns="${PACKAGE_REL_NS}">`,
+    ...sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`),
+    `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>`,
+    '</Relationships>',
+  ].join('');
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'xl/workbook.xml', data: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+    { name: 'xl/styles.xml', data: STYLES_XML },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: worksheetXml(sheet, keepFormulas, i === active) })),
+  ]).then(zip => new Blob([zip], { type: XLSX_MIME }));
+};
+
+// Встроенные форматы дат и времени: в styles.xml у них есть только номер
+const BUILTIN_DATE_FORMATS: Record<number, string> = {
+  14: 'dd.mm.yyyy', 15: 'd-mmm-yy', 16: 'd-mmm', 17: 'mmm-yy', 18: 'h:mm AM/PM', 19: 'h:mm:ss AM/PM',
+  20: 'h:mm', 21: 'h:mm:ss', 22: 'dd.mm.yyyy h:mm', 45: 'mm:ss', 46: '[h]:mm:ss', 47: 'mmss.0',
+};
+
+type DateFormat = DateTimeFormat | null;
+
+// Формат считается датой, если в нём есть d/y/m или h/s вне кавычек и квадратных скобок
+const dateFormatOf = (code: string): DateFormat => {
+  const bare = code.split(';')[0].replace(/"[^"]*"|\[[^\]]*\]|\\.|_.|\*./g, '');
+  const time = /[hs]/i.test(bare);
+  const date = /[dy]/i.test(bare) || (/m/i.test(bare) && !time);
+  return date || time ? { date, time } : null;
+};
+
+const formatSerial = (serial: number, format: DateTimeFormat, epochOffset: number) =>
+  formatTimestamp((serial - epochOffset) * DAY_MS, serial < 1 && format.time ? { date: false, time: true } : format);
+
+const relationshipId = (el: Element) =>
+  Array.from(el.attributes).find(attr => attr.localName === 'id' && attr.namespaceURI?.endsWith('/relationships'))?.value ?? null;
+
+// Target в .rels указывается относительно папки части или от корня архива
+const resolveTarget = (base: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+const relsPath = (part: string) => {
+  const slash = part.lastIndexOf('/');
+  return `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`;
+};
+
+const readRelationships = async (zip: ReturnType<typeof openZip>, part: string) => {
+  const text = await zip.readText(relsPath(part));
+  const targets = new Map<string, { type: string; target: string }>();
+  if (!text) return targets;
+  elements(parseXml(text, relsPath(part)), 'Relationship').forEach(rel => {
+    targets.set(rel.getAttribute('Id') ?? '', {
+      type: rel.getAttribute('Type') ?? '',
+      target: resolveTarget(part, rel.getAttribute('Target') ?? ''),
+    });
+  });
+  return targets;
+};
+
+// Текст строки с форматированием собирается из всех <t>, кроме фонетических подсказок <rPh>
+const richText = (el: Element) =>
+  elements(el, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+
+const readSharedStrings = async (zip: ReturnType<typeof openZip>, path: string | undefined) => {
+  const text = path && await zip.readText(path);
+  return text ? elements(parseXml(text, path), 'si').map(richText) : [];
+};
+
+const readDateStyles = async (zip: ReturnType<typeof openZip>, path: string | undefined) => {
+  const text = path && await zip.readText(path);
+  if (!text) return [];
+  const doc = parseXml(text, path);
+  const custom = new Map(elements(doc, 'numFmt').map(fmt => [Number(fmt.getAttribute('numFmtId')), fmt.getAttribute('formatCode') ?? '']));
+  const cellXfs = elements(doc, 'cellXfs')[0];
+  if (!cellXfs) return [];
+  return children(cellXfs, 'xf').map(xf => {
+    const id = Number(xf.getAttribute('numFmtId') ?? 0);
+    const code = custom.get(id) ?? BUILTIN_DATE_FORMATS[id];
+    return code ? dateFormatOf(code) : null;
+  });
+};
+
+interface SheetContext {
+  sharedStrings: string[];
+  dateStyles: DateFormat[];
+  epochOffset: number;
+}
+
+// Формулы не переносятся: берём значение, которое Excel вычислил и сохранил в файле
+const cellText = (c: Element, { sharedStrings, dateStyles, epochOffset }: SheetContext) => {
+  const type = c.getAttribute('t') ?? 'n';
+  const v = children(c, 'v')[0]?.textContent ?? '';
+  switch (type) {
+    case 's': return sharedStrings[Number(v)] ?? '';
+    case 'inlineStr': {
+      const is = children(c, 'is')[0];
+      return is ? richText(is) : '';
+    }
+    case 'b': return v === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e': return v;
+    case 'd': {
+      // ISO-дата в ячейке — редкость, но стандарт её допускает
+      const time = Date.parse(v);
+      const hasTime = /T\d/.test(v) && !/T00:00(:00)?/.test(v);
+      return Number.isNaN(time) ? v : formatSerial(time / DAY_MS + EXCEL_EPOCH_OFFSET, { date: true, time: hasTime }, EXCEL_EPOCH_OFFSET);
+    }
+    default: {
+      if (v === '') return '';
+      const number = Number(v);
+      if (!Number.isFinite(number)) return v;
+      const format = dateStyles[Number(c.getAttribute('s') ?? 0)];
+      return format ? formatSerial(number, format, epochOffset) : formatNumber(number);
+    }
+  }
+};
+
+const readWorksheetRows = (text: string, path: string, context: SheetContext) => {
+  const rows: string[][] = [];
+  let nextRow = 0;
+  elements(parseXml(text, path), 'row').forEach(rowEl => {
+    const r = Number(rowEl.getAttribute('r')) - 1;
+    const rowIndex = Number.isInteger(r) && r >= 0 ? r : nextRow;
+    nextRow = rowIndex + 1;
+    const row: string[] = [];
+    let nextCol = 0;
+    children(rowEl, 'c').forEach(c => {
+      const col = parseRef(c.getAttribute('r') ?? '')?.col ?? nextCol;
+      nextCol = col + 1;
+      const value = cellText(c, context);
+      if (value !== '') row[col] = value;
+    });
+    rows[rowIndex] = Array.from(row, v => v ?? '');
+  });
+  return trimRows(Array.from(rows, row => row ?? []));
+};
+
+// Все листы книги в виде строк значений; даты — в виде ДД.ММ.ГГГГ, как их вводят голосом
+export const readXlsx = async (file: Blob): Promise<ImportedSheet[]> => {
+  let zip: ReturnType<typeof openZip>;
+  try {
+    zip = openZip(await file.arrayBuffer());
+  } catch (e) {
+    throw e instanceof ZipError ? new SpreadsheetImportError('Это не файл .xlsx: возможно, он в старом формате .xls') : e;
+  }
+
+  try {
+    const rootRels = await readRelationships(zip, '');
+    const workbookPath = Array.from(rootRels.values()).find(rel => rel.type.endsWith('/officeDocument'))?.target ?? 'xl/workbook.xml';
+    const workbookText = await zip.readText(workbookPath);
+    if (!workbookText) throw new SpreadsheetImportError('В файле нет книги Excel');
+    const workbook = parseXml(workbookText, workbookPath);
+    const rels = await readRelationships(zip, workbookPath);
+    const partOfType = (type: string) => Array.from(rels.values()).find(rel => rel.type.endsWith(`/${type}`))?.target;
+
+    const is1904 = ['1', 'true'].includes(elements(workbook, 'workbookPr')[0]?.getAttribute('date1904') ?? '');
+    const context: SheetContext = {
+      sharedStrings: await readSharedStrings(zip, partOfType('sharedStrings')),
+      dateStyles: await readDateStyles(zip, partOfType('styles')),
+      epochOffset: is1904 ? EXCEL_1904_EPOCH_OFFSET : EXCEL_EPOCH_OFFSET,
+    };
+
+    const sheets: ImportedSheet[] = [];
+    for (const sheetEl of elements(workbook, 'sheet')) {
+      const rel = rels.get(relationshipId(sheetEl) ?? '');
+      // Листы-диаграммы и макросы не содержат ячеек — пропускаем
+      if (!rel?.type.endsWith('/worksheet')) continue;
+      const text = await zip.readText(rel.target);
+      if (!text) continue;
+      sheets.push(
+        checkImportedSheet({ name: sheetEl.getAttribute('name') || `Лист ${sheets.length + 1}`, rows: readWorksheetRows(text, rel.target, context) })
+      );
+    }
+    if (sheets.length === 0) throw new SpreadsheetImportError('В книге нет листов с данными');
+    return sheets;
+  } catch (e) {
+    throw e instanceof ZipError ? new SpreadsheetImportError(e.message) : e;
+  }
+};
@@ -0,0 +1,152 @@
+// Минимальная работа с ZIP для .xlsx: сжатие deflate средствами браузера, без сторонних библиотек
+
+export class ZipError extends Error {}
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array<ArrayBuffer> | string;
+  // Без сжатия: так по стандарту хранится mimetype в .ods
+  stored?: boolean;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const transform = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Дата и время в формате MS-DOS, как их ждут заголовки ZIP
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const header = (size: number, fill: (view: DataView) => void) => {
+  const bytes = new Uint8Array(size);
+  fill(new DataView(bytes.buffer));
+  return bytes;
+};
+
+export const createZip = async (entries: ZipEntry[], modified = new Date()): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const method = entry.stored ? 0 : 8;
+    const compressed = entry.stored ? data : await transform(data, new CompressionStream('deflate-raw'));
+    const crc = crc32(data);
+    // Общие поля локального заголовка и записи каталога; флаг 0x0800 — имя в UTF-8
+    const common = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true);
+      view.setUint16(at + 2, 0x0800, true);
+      view.setUint16(at + 4, method, true);
+      view.setUint16(at + 6, time, true);
+      view.setUint16(at + 8, date, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, compressed.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+
+    parts.push(header(30, view => {
+      view.setUint32(0, 0x04034b50, true);
+      common(view, 4);
+    }), name, compressed);
+
+    directory.push(header(46, view => {
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 20, true);
+      common(view, 6);
+      view.setUint32(42, offset, true);
+    }), name);
+
+    offset += 30 + name.length + compressed.length;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = header(22, view => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, entries.length, true);
+    view.setUint16(10, entries.length, true);
+    view.setUint32(12, directorySize, true);
+    view.setUint32(16, offset, true);
+  });
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+};
+
+interface ZipRecord {
+  method: number;
+  compressedSize: number;
+  offset: number;
+}
+
+// Оглавление архива читается сразу, содержимое файлов — по запросу
+export const openZip = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // Конец каталога ищем с хвоста: за ним может идти комментарий до 64 КБ
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new ZipError('Файл не является ZIP-архивом');
+
+  const records = new Map<string, ZipRecord>();
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (at + 46 > buffer.byteLength || view.getUint32(at, true) !== 0x02014b50) throw new ZipError('Оглавление архива повреждено');
+    const nameLength = view.getUint16(at + 28, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+    records.set(name, {
+      method: view.getUint16(at + 10, true),
+      compressedSize: view.getUint32(at + 20, true),
+      offset: view.getUint32(at + 42, true),
+    });
+    at += 46 + nameLength + view.getUint16(at + 30, true) + view.getUint16(at + 32, true);
+  }
+
+  const read = async (name: string) => {
+    const record = records.get(name);
+    if (!record) return null;
+    const { method, compressedSize, offset } = record;
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    const data = bytes.slice(start, start + compressedSize);
+    if (method === 0) return data;
+    if (method !== 8) throw new ZipError(`Неподдерживаемый способ сжатия в «${name}»`);
+    try {
+      return await transform(data, new DecompressionStream('deflate-raw'));
+    } catch {
+      throw new ZipError(`Файл «${name}» в архиве повреждён`);
+    }
+  };
+
+  return {
+    names: Array.from(records.keys()),
+    read,
+    readText: async (name: string) => {
+      const data = await read(name);
+      return data && decoder.decode(data);
+    },
+  };
+};
@@ -3,4 +3,10 @@ import { createRoot } from 'react-dom/client'
 import App from './App'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
\ No newline at end of file
+createRoot(document.getElementById("root")!).render(<App />);
+// Сервис-воркер нужен только сборке: в режиме разработки он мешал бы горячей перезагрузке
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.error('Service worker registration error:', error))
+  })
+}
@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import Icon from '@/components/ui/icon';
+import { useToast } from '@/hooks/use-toast';
+import DocumentCard from '@/components/documents/DocumentCard';
+import SyncConflictDialog from '@/components/documents/SyncConflictDialog';
+import SyncSettingsDialog from '@/components/documents/SyncSettingsDialog';
+import { useSync } from '@/hooks/use-sync';
+import {
+  copyDocument,
+  copyName,
+  createBlankDocument,
+  documentFromProject,
+  nextDocumentName,
+} from '@/lib/documents';
+import { parseProject, PROJECT_EXTENSION, ProjectFileError } from '@/lib/project-file';
+import {
+  deleteDocument,
+  isQuotaError,
+  listDocuments,
+  loadDocument,
+  renameDocument,
+  saveDocument,
+} from '@/lib/storage';
+import { ignoreRemoteDocument, SyncConflictError, SyncNetworkError } from '@/lib/sync';
+
+const DOCUMENTS_QUERY = ['documents'];
+
+const Documents = () => {
+  const [search, setSearch] = useState('');
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: documents = [], isLoading, isError } = useQuery({
+    queryKey: DOCUMENTS_QUERY,
+    queryFn: listDocuments,
+  });
+
+  const refreshList = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY }),
+    [queryClient]
+  );
+  const sync = useSync({ onDocumentChanged: refreshList });
+  const { isEnabled: isSyncEnabled, syncAll } = sync;
+
+  const synchronize = useCallback(async (silent: boolean) => {
+    try {
+      const report = await syncAll();
+      if (!report || silent) return;
+      const count = (status: string) => report.outcomes.filter(o => o.outcome.status === status).length;
+      toast({
+        title: "Синхронизация завершена",
+        description: `Отправлено: ${count('pushed')}, получено: ${count('pulled') + count('merged') + report.created}` +
+          (count('conflict') > 0 ? `, конфликтов: ${count('conflict')}` : ''),
+      });
+    } catch (error) {
+      console.error('Sync error:', error);
+      if (silent) return;
+      toast({
+        title: "Синхронизация не удалась",
+        description: error instanceof SyncNetworkError
+          ? `Сервер недоступен: ${error.message}. Правки сохранены в браузере и будут отправлены позже`
+          : 'Попробуйте ещё раз',
+        variant: "destructive",
+      });
+    } finally {
+      refreshList();
+    }
+  }, [syncAll, toast, refreshList]);
+
+  // Правки, сделанные без сети, уходят на сервер, как только она появляется
+  useEffect(() => {
+    if (!isSyncEnabled) return;
+    synchronize(true);
+    const handleOnline = () => synchronize(true);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [isSyncEnabled, synchronize]);
+
+  const names = useMemo(() => documents.map(d => d.name), [documents]);
+  const visibleDocuments = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return documents;
+    return documents.filter(d =>
+      d.name.toLowerCase().includes(query) || d.sheetNames.some(name => name.toLowerCase().includes(query))
+    );
+  }, [documents, search]);
+
+  // Все операции заканчиваются перечитыванием списка, ошибки показываем одинаково
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: failure,
+        description: isQuotaError(error) ? 'В браузере закончилось место' : 'Попробуйте ещё раз',
+        variant: "destructive",
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY });
+    }
+  };
+
+  const createDocument = () =>
+    run(async () => {
+      const document = createBlankDocument(nextDocumentName(names));
+      await saveDocument(document);
+      navigate(`/doc/${document.id}`);
+    }, 'Не удалось создать таблицу');
+
+  const openProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const document = documentFromProject(parseProject(await file.text()), names);
+      await saveDocument(document);
+      queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY });
+      navigate(`/doc/${document.id}`);
+    } catch (error) {
+      console.error('Project open error:', error);
+      toast({
+        title: "Не удалось открыть проект",
+        description: error instanceof ProjectFileError
+          ? error.message
+          : isQuotaError(error) ? 'В браузере закончилось место' : 'Попробуйте ещё раз',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const rename = (id: string, name: string) =>
+    run(() => renameDocument(id, name), 'Не удалось переименовать');
+
+  const duplicate = (id: string) =>
+    run(async () => {
+      const source = await loadDocument(id);
+      if (!source) throw new Error('Документ не найден');
+      const copy = copyDocument(source, copyName(source.name, names));
+      await saveDocument(copy);
+      toast({
+        title: "Копия создана",
+        description: copy.name,
+      });
+    }, 'Не удалось дублировать');
+
+  const remove = (id: string) =>
+    run(async () => {
+      const document = documents.find(d => d.id === id);
+      await deleteDocument(id);
+      if (document?.syncStatus !== 'local') ignoreRemoteDocument(id);
+      toast({
+        title: "Таблица удалена",
+        description: document?.name,
+      });
+    }, 'Не удалось удалить');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+      <div className="container mx-auto py-8 px-4">
+        <header className="mb-8 flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-5xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-cyan-400 bg-clip-text text-transparent mb-2">
+              Excel Voice Pro
+            </h1>
+            <p className="text-slate-400">Мои таблицы</p>
+          </div>
+          <div className="flex gap-2">
+            <SyncSettingsDialog endpoint={sync.endpoint} onSave={sync.updateEndpoint} />
+            {sync.isEnabled && (
+              <Button
+                onClick={() => synchronize(false)}
+                disabled={sync.isSyncing}
+                variant="outline"
+                className="border-slate-600 hover:bg-slate-700/50"
+              >
+                <Icon name="RefreshCw" size={18} className={`mr-2 text-cyan-400 ${sync.isSyncing ? 'animate-spin' : ''}`} />
+                Синхронизировать
+              </Button>
+            )}
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept={`${PROJECT_EXTENSION},.json,application/json`}
+              onChange={openProject}
+              className="hidden"
+            />
+            <Button
+              onClick={() => projectInputRef.current?.click()}
+              variant="outline"
+              className="border-slate-600 hover:bg-slate-700/50"
+            >
+              <Icon name="FolderOpen" size={18} className="mr-2 text-cyan-400" />
+              Открыть проект
+            </Button>
+            <Button onClick={createDocument} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+              <Icon name="Plus" size={18} className="mr-2" />
+              Новая таблица
+            </Button>
+          </div>
+        </header>
+
+        <div className="relative mb-6 max-w-md">
+          <Icon name="Search" size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Поиск по названию или листу"
+            className="pl-9 bg-slate-800 border-slate-700"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex h-40 items-center justify-center text-slate-400">
+            <Icon name="Loader2" size={20} className="mr-2 animate-spin text-cyan-400" />
+            Загрузка списка…
+          </div>
+        ) : isError ? (
+          <Card className="p-8 text-center border-slate-700 bg-slate-800/80 text-slate-400">
+            Хранилище браузера недоступно — таблицы не могут быть сохранены.
+          </Card>
+        ) : visibleDocuments.length === 0 ? (
+          <Card className="p-8 text-center border-slate-700 bg-slate-800/80">
+            <Icon name="FileSpreadsheet" size={40} className="mx-auto mb-4 text-slate-500" />
+            <p className="text-slate-400">
+              {documents.length === 0 ? 'Таблиц пока нет — создайте первую' : 'Ничего не найдено'}
+            </p>
+          </Card>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {visibleDocuments.map(document => (
+              <DocumentCard
+                key={document.id}
+                document={document}
+                onRename={rename}
+                onDuplicate={duplicate}
+                onDelete={remove}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {sync.conflict && (
+        <SyncConflictDialog
+          key={sync.conflict.local.id}
+          documentName={sync.conflict.local.name}
+          conflicts={sync.conflict.conflicts}
+          onResolve={async (choices) => {
+            try {
+              await sync.resolve(choices);
+            } catch (error) {
+              console.error('Sync resolve error:', error);
+              toast({
+                title: "Не удалось объединить",
+                description: error instanceof SyncConflictError
+                  ? "Документ изменился на сервере ещё раз — синхронизируйте снова"
+                  : "Сервер недоступен, попробуйте позже",
+                variant: "destructive",
+              });
+              sync.skip();
+            }
+          }}
+          onSkip={sync.skip}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Documents;
@@ -1,37 +1,78 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import Icon from '@/components/ui/icon';
+import SheetGrid from '@/components/sheet/SheetGrid';
+import SheetTabs from '@/components/sheet/SheetTabs';
+import SelectionToolbar from '@/components/sheet/SelectionToolbar';
+import AutosaveIndicator from '@/components/sheet/AutosaveIndicator';
+import SnapshotsPanel from '@/components/sheet/SnapshotsPanel';
+import SnapshotCompareBar from '@/components/sheet/SnapshotCompareBar';
+import SyncConflictDialog from '@/components/documents/SyncConflictDialog';
+import ImportDialog, { type ImportSelection } from '@/components/sheet/ImportDialog';
+import CsvExportDialog from '@/components/sheet/CsvExportDialog';
+import ReportExportDialog from '@/components/sheet/ReportExportDialog';
+import CsvImportDialog, { type CsvImport } from '@/components/sheet/CsvImportDialog';
+import ColumnMappingDialog, { type MappedImport } from '@/components/sheet/ColumnMappingDialog';
+import { useFilteredRows, useHistoryState, useSheetShape, useWorkbookState } from '@/hooks/use-sheet';
+import { useSheetClipboard } from '@/hooks/use-sheet-clipboard';
+import { useAutosave, type AutosaveError } from '@/hooks/use-autosave';
+import { useSnapshotDiff, useSnapshots } from '@/hooks/use-snapshots';
+import { useOcrQueue } from '@/hooks/use-ocr-queue';
+import { useSync } from '@/hooks/use-sync';
 import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
+  columnLabel,
+  createId,
+  movedIndex,
+  toMatrix,
+  type CellData,
+  type ColumnConfig,
+  type ColumnType,
+  type SheetStore,
+} from '@/lib/sheet';
+import { cellsCommand, columnsCommand, createHistory, structureCommand } from '@/lib/history';
+import { createWorkbookStore, type WorkbookSheet } from '@/lib/workbook';
+import { createBlankSheetData } from '@/lib/documents';
+import { formatSnapshotTime, snapshotSheet } from '@/lib/snapshots';
+import { isQuotaError, type QueuedPhoto, type StoredDocument } from '@/lib/storage';
+import { OcrNetworkError, OcrRecognitionError, recognizeImage } from '@/lib/ocr';
+import { ProjectFileError, projectFileName, serializeProject } from '@/lib/project-file';
+import { createShareUrl, ShareLinkError } from '@/lib/share';
+import { SyncConflictError, SyncNetworkError } from '@/lib/sync';
+import type { ConflictChoice } from '@/lib/merge';
+import { parseRef } from '@/lib/formula/parser';
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-
-interface CellData {
-  id: string;
-  row: number;
-  col: number;
-  value: string;
-}
-
-interface ColumnConfig {
-  index: number;
-  name: string;
-  type: 'date' | 'title' | 'info' | 'text';
-}
+  cellLabel,
+  cellSelection,
+  columnSelection,
+  distributeText,
+  isSingleCell,
+  type CellRange,
+  mapSelection,
+  rangeContains,
+  rangeLabel,
+  rangePositions,
+  rangeSize,
+  rowSelection,
+  selectionRange,
+  type Selection,
+} from '@/lib/selection';
+import { changeCase, type CaseMode } from '@/lib/text';
+import { hasActiveFilters, type ColumnFilter, type SheetFilters } from '@/lib/filters';
+import { sortedRowOrder, type SortDirection } from '@/lib/sort';
+import { readXlsx, workbookToXlsx, XLSX_MIME } from '@/lib/xlsx';
+import { ODS_MIME, readOds, workbookToOds } from '@/lib/ods';
+import { SpreadsheetImportError } from '@/lib/spreadsheet';
+import { detectColumnType, sheetFromRows, type ImportedSheet } from '@/lib/import';
+import { encodeCsv, toCsv, type CsvOptions } from '@/lib/csv';
+import { REPORT_FORMATS, renderReport, reportTable, type ReportFormat } from '@/lib/report';
+import { downloadBlob, fileNameFor } from '@/lib/download';
 
 interface AISuggestion {
   value: string;
@@ -39,24 +80,22 @@ interface AISuggestion {
   reason: string;
 }
 
-const detectColumnType = (values: string[]): 'date' | 'title' | 'info' | 'text' => {
-  const nonEmpty = values.filter(v => v.trim() !== '');
-  if (nonEmpty.length === 0) return 'text';
-
-  const datePattern = /^\d{1,2}[./-]\d{1,2}[./-]\d{2,4}$/;
-  const dateCount = nonEmpty.filter(v => datePattern.test(v)).length;
-  if (dateCount / nonEmpty.length > 0.6) return 'date';
-
-  const avgLength = nonEmpty.reduce((sum, v) => sum + v.length, 0) / nonEmpty.length;
-  if (avgLength < 30) return 'title';
-  if (avgLength > 50) return 'info';
-  
-  return 'text';
+// Распознанный текст идёт в одну ячейку или распределяется по диапазону. Ячейки за краем листа расширяют его
+// в той же команде, а под единственной ячейкой на последней строке добавляется строка для следующего ввода,
+// так что одна отмена убирает и текст, и добавленные строки
+const recognizedTextCommand = (label: string, { id, store }: WorkbookSheet, range: CellRange, text: string) => {
+  if (!isSingleCell(range)) return cellsCommand(label, id, store, distributeText(text, range));
+  const update = { row: range.top, col: range.left, value: text };
+  if (range.top + 1 < store.getRowCount()) return cellsCommand(label, id, store, [update]);
+  return structureCommand(label, id, store, () => {
+    store.setValues([update]);
+    store.insertRows(store.getRowCount());
+  });
 };
 
-const analyzePatterns = (cells: CellData[], row: number, col: number, currentValue: string): AISuggestion[] => {
+const analyzePatterns = (sheet: SheetStore, row: number, col: number, currentValue: string): AISuggestion[] => {
   const suggestions: AISuggestion[] = [];
-  const columnValues = cells.filter(c => c.col === col && c.value.trim() !== '').map(c => c.value);
+  const columnValues = sheet.getColumnCells(col).filter(c => c.value.trim() !== '').map(c => c.value);
   
   if (currentValue.length < 2) return suggestions;
 
@@ -75,7 +114,7 @@ const analyzePatterns = (cells: CellData[], row: number, col: number, currentVal
   });
 
   if (row > 0) {
-    const prevRowValue = cells.find(c => c.row === row - 1 && c.col === col)?.value;
+    const prevRowValue = sheet.getValue(row - 1, col);
     if (prevRowValue && prevRowValue.trim() !== '' && !suggestions.find(s => s.value === prevRowValue)) {
       suggestions.push({
         value: prevRowValue,
@@ -111,48 +150,101 @@ const analyzePatterns = (cells: CellData[], row: number, col: number, currentVal
 };
 
 const Index = () => {
-  const [cells, setCells] = useState<CellData[]>([]);
-  const [columns, setColumns] = useState<ColumnConfig[]>([]);
+  const { id: documentId = '' } = useParams();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [workbook] = useState(() => createWorkbookStore(
+    [{ name: 'Лист 1', ...createBlankSheetData() }],
+    createBlankSheetData
+  ));
+  const [documentName, setDocumentName] = useState('');
+  // Дата создания и происхождение документа уходят в файл проекта и ссылку вместе с листами
+  const provenanceRef = useRef<Pick<StoredDocument, 'createdAt' | 'origin'>>({});
+  const { sheets, activeId } = useWorkbookState(workbook);
+  const { store: sheet, formulas } = sheets.find(s => s.id === activeId)!;
+  const { rowCount, columns } = useSheetShape(sheet);
+  const [history] = useState(() => createHistory());
+  const { undoLabel, redoLabel } = useHistoryState(history);
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState('');
-  const [selectedCell, setSelectedCell] = useState<{row: number, col: number} | null>(null);
-  const [editingColumn, setEditingColumn] = useState<number | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
   const [aiSuggestions, setAiSuggestions] = useState<AISuggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [aiEnabled, setAiEnabled] = useState(true);
   const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(0);
   const [isProcessingOCR, setIsProcessingOCR] = useState(false);
+  const [exportFormulas, setExportFormulas] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  // Фильтры — только представление: данные листа не меняются
+  const [filters, setFilters] = useState<Record<string, SheetFilters>>({});
+  const sheetFilters = filters[activeId];
+  const filteredRows = useFilteredRows(sheet, formulas, sheetFilters);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState<{ fileName: string; sheets: ImportedSheet[] } | null>(null);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; bytes: Uint8Array; filledRows: number } | null>(null);
+  const [mappingImport, setMappingImport] = useState<{ fileName: string; rows: string[][]; hasHeader: boolean; filledRows: number } | null>(null);
   const recognitionRef = useRef<any>(null);
   const { toast } = useToast();
+  const selectedCell = selection?.anchor ?? null;
+  const selectedRange = selection && selectionRange(selection);
+  // Выгрузки одного листа называются по документу и листу
+  const exportName = sheets.length > 1 ? `${documentName} — ${sheets.find(s => s.id === activeId)?.name}` : documentName;
+  // Распознавание речи живёт дольше одного рендера: результат уходит в ячейку, выбранную к этому моменту
+  const selectionRef = useRef(selection);
+  selectionRef.current = selection;
+
+  const applyCells = useCallback((label: string, updates: CellData[], mergeKey?: string) => {
+    history.execute(cellsCommand(label, activeId, sheet, updates, mergeKey));
+  }, [history, activeId, sheet]);
 
-  const ROWS = 20;
-  const COLS = 10;
+  const applyColumns = useCallback((label: string, next: ColumnConfig[], mergeKey?: string) => {
+    history.execute(columnsCommand(label, activeId, sheet, next, mergeKey));
+  }, [history, activeId, sheet]);
+
+  const applyStructure = useCallback((label: string, mutate: () => void) => {
+    history.execute(structureCommand(label, activeId, sheet, mutate));
+  }, [history, activeId, sheet]);
+
+  const undo = useCallback(() => {
+    const command = history.undo();
+    if (command && command.sheetId !== workbook.getState().activeId) workbook.setActive(command.sheetId);
+  }, [history, workbook]);
+
+  const redo = useCallback(() => {
+    const command = history.redo();
+    if (command && command.sheetId !== workbook.getState().activeId) workbook.setActive(command.sheetId);
+  }, [history, workbook]);
 
   useEffect(() => {
-    const initialCells: CellData[] = [];
-    for (let r = 0; r < ROWS; r++) {
-      for (let c = 0; c < COLS; c++) {
-        initialCells.push({
-          id: `${r}-${c}`,
-          row: r,
-          col: c,
-          value: ''
-        });
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      const inForeignInput = target.matches('input, textarea, [contenteditable]') && !target.closest('[data-sheet-grid]');
+      if (inForeignInput) return;
+
+      const key = e.key.toLowerCase();
+      if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (key === 'z') {
+        e.preventDefault();
+        undo();
       }
-    }
-    setCells(initialCells);
-
-    const initialColumns: ColumnConfig[] = [];
-    for (let i = 0; i < COLS; i++) {
-      initialColumns.push({
-        index: i,
-        name: String.fromCharCode(65 + i),
-        type: 'text'
-      });
-    }
-    setColumns(initialColumns);
-  }, []);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Распознанный текст идёт в активную ячейку или выделенный диапазон; после одной ячейки переходим на строку ниже
+  const insertRecognizedText = useCallback((target: Selection, text: string, source: string) => {
+    const range = selectionRange(target);
+    const active = workbook.getActiveSheet();
+    history.execute(recognizedTextCommand(`${source} → ${rangeLabel(active.store.getColumns(), range)}`, active, range, text));
+    if (isSingleCell(range)) setSelection(cellSelection(range.top + 1, range.left));
+  }, [workbook, history]);
+  const insertRecognizedTextRef = useRef(insertRecognizedText);
+  insertRecognizedTextRef.current = insertRecognizedText;
 
   useEffect(() => {
     if ('webkitSpeechRecognition' in window) {
@@ -165,14 +257,8 @@ const Index = () => {
       recognitionRef.current.onresult = (event: any) => {
         const text = event.results[0][0].transcript;
         setTranscript(text);
-        if (selectedCell) {
-          setCells(prev => 
-            prev.map(cell => 
-              cell.row === selectedCell.row && cell.col === selectedCell.col 
-                ? { ...cell, value: text } 
-                : cell
-            )
-          );
+        if (selectionRef.current) {
+          insertRecognizedTextRef.current(selectionRef.current, text, 'Голос');
         }
         toast({
           title: "Текст распознан",
@@ -194,13 +280,13 @@ const Index = () => {
         setIsListening(false);
       };
     }
-  }, [selectedCell, toast, cells]);
+  }, [toast]);
 
   const startListening = () => {
-    if (!selectedCell) {
+    if (!selection) {
       toast({
         title: "Выберите ячейку",
-        description: "Сначала кликните на ячейку таблицы",
+        description: "Сначала выберите ячейку таблицы",
       });
       return;
     }
@@ -238,17 +324,9 @@ const Index = () => {
     }
   };
 
-  const updateCell = (row: number, col: number, value: string, skipSuggestions = false) => {
-    setCells(prev => 
-      prev.map(cell => 
-        cell.row === row && cell.col === col 
-          ? { ...cell, value } 
-          : cell
-      )
-    );
-
+  const updateCell = useCallback((row: number, col: number, value: string, skipSuggestions = false) => {
     if (!skipSuggestions && aiEnabled && value.length >= 2) {
-      const newSuggestions = analyzePatterns(cells, row, col, value);
+      const newSuggestions = analyzePatterns(sheet, row, col, value);
       setAiSuggestions(newSuggestions);
       setShowSuggestions(newSuggestions.length > 0);
       setSelectedSuggestionIndex(0);
@@ -256,7 +334,32 @@ const Index = () => {
       setShowSuggestions(false);
       setAiSuggestions([]);
     }
-  };
+
+    applyCells(
+      `Ввод → ${cellLabel(sheet.getColumns(), row, col)}`,
+      [{ row, col, value }],
+      `edit:${row}:${col}`
+    );
+  }, [sheet, aiEnabled, applyCells]);
+
+  const selectCell = useCallback((row: number, col: number, extend: boolean) => {
+    setSelection(prev => {
+      if (extend && prev) {
+        return prev.focus.row === row && prev.focus.col === col ? prev : { anchor: prev.anchor, focus: { row, col } };
+      }
+      return prev && isSingleCell(selectionRange(prev)) && prev.anchor.row === row && prev.anchor.col === col
+        ? prev
+        : cellSelection(row, col);
+    });
+  }, []);
+
+  const selectRow = useCallback((row: number, extend: boolean) => {
+    setSelection(prev => rowSelection(extend && prev ? prev.anchor.row : row, row, sheet.getColCount()));
+  }, [sheet]);
+
+  const selectColumn = useCallback((col: number, extend: boolean) => {
+    setSelection(prev => columnSelection(extend && prev ? prev.anchor.col : col, col, sheet.getRowCount()));
+  }, [sheet]);
 
   const applySuggestion = (suggestion: AISuggestion) => {
     if (selectedCell) {
@@ -269,12 +372,13 @@ const Index = () => {
     }
   };
 
-  const autoFillColumn = (col: number) => {
-    const columnCells = cells.filter(c => c.col === col);
-    const filledCells = columnCells.filter(c => c.value.trim() !== '');
-    const emptyCells = columnCells.filter(c => c.value.trim() === '');
+  const autoFillColumn = useCallback((col: number) => {
+    const filledCells = sheet.getColumnCells(col).filter(c => c.value.trim() !== '');
+    const filledRows = new Set(filledCells.map(c => c.row));
+    const emptyRows = Array.from({ length: sheet.getRowCount() }, (_, row) => row)
+      .filter(row => !filledRows.has(row));
 
-    if (filledCells.length === 0 || emptyCells.length === 0) {
+    if (filledCells.length === 0 || emptyRows.length === 0) {
       toast({
         title: "Нет данных",
         description: "Недостаточно данных для автозаполнения",
@@ -292,25 +396,24 @@ const Index = () => {
       .sort((a, b) => b[1] - a[1])[0]?.[0];
 
     if (mostCommonValue) {
-      setCells(prev => 
-        prev.map(cell => 
-          cell.col === col && cell.value.trim() === ''
-            ? { ...cell, value: mostCommonValue }
-            : cell
-        )
+      applyCells(
+        `Автозаполнение → ${sheet.getColumns()[col]?.name}`,
+        emptyRows.map(row => ({ row, col, value: mostCommonValue }))
       );
       toast({
         title: "Автозаполнение выполнено",
-        description: `Заполнено ${emptyCells.length} ячеек значением "${mostCommonValue}"`,
+        description: `Заполнено ${emptyRows.length} ячеек значением "${mostCommonValue}"`,
       });
     }
-  };
+  }, [sheet, toast, applyCells]);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
-    if (!selectedCell) {
+    const target = selection;
+    if (!target) {
       toast({
         title: "Выберите ячейку",
         description: "Сначала выберите ячейку для вставки текста",
@@ -319,6 +422,40 @@ const Index = () => {
       return;
     }
 
+    // Без сети фото откладывается и уйдёт на распознавание, когда связь появится
+    const queue = async () => {
+      try {
+        // Документ, сохранённый до появления id листов, получает их только при записи — пишем сразу,
+        // чтобы после перезагрузки фото нашло свой лист
+        await autosave.retry();
+        await ocrQueue.enqueue({
+          id: createId(),
+          documentId,
+          sheetId: activeId,
+          sheetName: activeSheetName,
+          range: selectionRange(target),
+          image: file,
+          createdAt: Date.now(),
+        });
+        toast({
+          title: "Нет сети — фото в очереди",
+          description: "Текст появится в ячейке, когда связь восстановится",
+        });
+      } catch (error) {
+        console.error('OCR queue error:', error);
+        toast({
+          title: "Ошибка сети",
+          description: "Не удалось сохранить фото для повторной отправки",
+          variant: "destructive"
+        });
+      }
+    };
+
+    if (!navigator.onLine) {
+      await queue();
+      return;
+    }
+
     setIsProcessingOCR(true);
     toast({
       title: "Обработка изображения...",
@@ -326,135 +463,684 @@ const Index = () => {
     });
 
     try {
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        const base64Image = event.target?.result as string;
-        
-        try {
-          const response = await fetch('https://functions.poehali.dev/32b98d17-d76f-43cf-85ea-e1d226b5f7f2', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              image: base64Image
-            })
-          });
-
-          const result = await response.json();
-
-          if (response.ok && result.text) {
-            updateCell(selectedCell.row, selectedCell.col, result.text, true);
-            toast({
-              title: "Текст распознан!",
-              description: `Распознано: "${result.text.substring(0, 50)}${result.text.length > 50 ? '...' : ''}"`,
-            });
-          } else {
-            toast({
-              title: "Ошибка распознавания",
-              description: result.error || "Не удалось распознать текст",
-              variant: "destructive"
-            });
-          }
-        } catch (error) {
-          console.error('OCR error:', error);
-          toast({
-            title: "Ошибка сети",
-            description: "Не удалось обработать изображение",
-            variant: "destructive"
-          });
-        } finally {
-          setIsProcessingOCR(false);
-        }
-      };
-
-      reader.readAsDataURL(file);
+      const text = await recognizeImage(file);
+      setShowSuggestions(false);
+      insertRecognizedText(target, text, 'OCR');
+      toast({
+        title: "Текст распознан!",
+        description: `Распознано: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`,
+      });
     } catch (error) {
-      console.error('File reading error:', error);
+      console.error('OCR error:', error);
+      if (error instanceof OcrNetworkError) {
+        await queue();
+      } else {
+        toast({
+          title: "Ошибка распознавания",
+          description: error instanceof OcrRecognitionError ? error.message : "Не удалось обработать изображение",
+          variant: "destructive"
+        });
+      }
+    } finally {
       setIsProcessingOCR(false);
+    }
+  };
+
+  // Текст из отложенного фото вставляется в тот лист и те ячейки, что были выбраны при съёмке,
+  // даже если лист с тех пор переименовали. Фото из старой очереди без sheetId ищут лист по названию
+  const insertQueuedText = (photo: QueuedPhoto, text: string) => {
+    const target = workbook.getState().sheets.find(s => (photo.sheetId ? s.id === photo.sheetId : s.name === photo.sheetName));
+    if (!target) {
       toast({
-        title: "Ошибка чтения файла",
-        description: "Не удалось загрузить изображение",
+        title: "Фото распознано, но лист удалён",
+        description: `Лист «${photo.sheetName}» не найден. Текст: "${text.substring(0, 50)}"`,
         variant: "destructive"
       });
+      return;
     }
+    const label = `${target.name}: ${rangeLabel(target.store.getColumns(), photo.range)}`;
+    history.execute(recognizedTextCommand(`OCR → ${label}`, target, photo.range, text));
+    toast({
+      title: "Фото из очереди распознано",
+      description: `${label}: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`,
+    });
+  };
+
+  // CSV хранит один лист — активный
+  const exportToCSV = (name: string, options: CsvOptions) => {
+    const rows = toMatrix(exportFormulas ? sheet.getData() : formulas.getDisplayData());
+    const { blob, replaced } = encodeCsv(toCsv(columns, rows, options.delimiter, exportFormulas), options.encoding);
+    const fileName = fileNameFor(name.replace(/\.csv$/i, ''), '.csv');
+    downloadBlob(blob, fileName);
+    toast({
+      title: "Экспорт завершён",
+      description: replaced > 0
+        ? `Файл ${fileName} загружен. Символов, которых нет в Windows-1251, заменено на «?»: ${replaced}`
+        : `Файл ${fileName} загружен`,
+    });
+  };
 
+  const openImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
     e.target.value = '';
+    if (!file) return;
+    try {
+      if (/\.ods$/i.test(file.name)) {
+        setImporting({ fileName: file.name, sheets: await readOds(file) });
+        return;
+      }
+      if (!/\.xlsx$/i.test(file.name)) {
+        setCsvImport({
+          fileName: file.name,
+          bytes: new Uint8Array(await file.arrayBuffer()),
+          filledRows: countFilledRows(),
+        });
+        return;
+      }
+      setImporting({ fileName: file.name, sheets: await readXlsx(file) });
+    } catch (error) {
+      console.error('Import error:', error);
+      toast({
+        title: "Не удалось открыть файл",
+        description: error instanceof SpreadsheetImportError ? error.message : "Файл повреждён или не читается",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importSheets = (selection: ImportSelection[]) => {
+    setImporting(null);
+    const data = selection.map(({ sheet, hasHeader }) => ({ name: sheet.name, ...sheetFromRows(sheet.rows, hasHeader) }));
+    // В пустую книгу импортируем вместо её листов, а не рядом с ними
+    if (sheets.every(s => s.store.getCells().length === 0)) {
+      workbook.replaceSheets(data);
+      history.clear();
+      setFilters({});
+    } else {
+      workbook.appendSheets(data);
+    }
+    setSelection(null);
+    toast({
+      title: "Импорт завершён",
+      description: `Листов: ${data.length}, строк: ${data.reduce((sum, d) => sum + new Set(d.cells.map(c => c.row)).size, 0)}`,
+    });
+  };
+
+  const countFilledRows = () => sheet.getCells().reduce((max, cell) => Math.max(max, cell.row + 1), 0);
+
+  // CSV ложится в активный лист: вместо его содержимого или, после сопоставления столбцов, под последней заполненной строкой
+  const importCsv = ({ rows, hasHeader, mode }: CsvImport) => {
+    if (!csvImport) return;
+    const { fileName, filledRows } = csvImport;
+    setCsvImport(null);
+    if (mode === 'append') {
+      setMappingImport({ fileName, rows, hasHeader, filledRows });
+      return;
+    }
+    if (filledRows > 0) takeSafetySnapshot(`Перед импортом ${fileName}`);
+    applyStructure(`Импорт ${fileName}`, () => sheet.load(sheetFromRows(rows, hasHeader)));
+    setSelection(null);
+    toast({
+      title: "Импорт завершён",
+      description: `Строк: ${hasHeader ? rows.length - 1 : rows.length}`,
+    });
   };
 
-  const exportToCSV = () => {
-    const rows: string[][] = Array(ROWS).fill(null).map(() => Array(COLS).fill(''));
-    cells.forEach(cell => {
-      rows[cell.row][cell.col] = cell.value;
+  const appendXlsxSheet = ({ sheet: source, hasHeader }: ImportSelection) => {
+    if (!importing) return;
+    setImporting(null);
+    setMappingImport({ fileName: importing.fileName, rows: source.rows, hasHeader, filledRows: countFilledRows() });
+  };
+
+  const appendMapped = ({ columns: nextColumns, cells, rowCount: added }: MappedImport) => {
+    if (!mappingImport) return;
+    const { fileName, filledRows } = mappingImport;
+    setMappingImport(null);
+    applyStructure(`Импорт ${fileName}`, () => {
+      sheet.setColumns(nextColumns);
+      sheet.setValues(cells.map(cell => ({ ...cell, row: filledRows + cell.row })));
+    });
+    setSelection(null);
+    toast({
+      title: "Импорт завершён",
+      description: `Добавлено строк: ${added} после строки ${filledRows}` +
+        (nextColumns.length > columns.length ? `, новых столбцов: ${nextColumns.length - columns.length}` : ''),
+    });
+  };
+
+  const projectDocument = () => ({
+    ...provenanceRef.current,
+    id: documentId,
+    name: documentName,
+    updatedAt: autosave.savedAt ?? Date.now(),
+    activeIndex: sheets.findIndex(s => s.id === activeId),
+    sheets: workbook.getData(),
+  });
+
+  const saveProject = () => {
+    const fileName = projectFileName(documentName);
+    let json: string;
+    try {
+      json = serializeProject(projectDocument());
+    } catch (e) {
+      if (!(e instanceof ProjectFileError)) throw e;
+      toast({ title: "Проект не сохранён", description: e.message, variant: "destructive" });
+      return;
+    }
+    downloadBlob(new Blob([json], { type: 'application/json' }), fileName);
+    toast({
+      title: "Проект сохранён",
+      description: `Файл ${fileName} загружен (листов: ${sheets.length})`,
     });
-    const csv = rows.map(row => row.join(',')).join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'table.csv';
-    a.click();
+  };
+
+  const shareSnapshot = async () => {
+    try {
+      const url = await createShareUrl(projectDocument(), window.location.origin);
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Ссылка скопирована",
+        description: "Получатель увидит таблицу в том виде, в каком она сейчас, без возможности правки",
+      });
+    } catch (e) {
+      console.error('Share error:', e);
+      toast({
+        title: "Не удалось поделиться",
+        description: e instanceof ShareLinkError || e instanceof ProjectFileError
+          ? e.message
+          : "Не удалось скопировать ссылку в буфер обмена",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportToExcel = async () => {
+    const fileName = fileNameFor(documentName, '.xlsx');
+    try {
+      const blob = await workbookToXlsx(sheets, sheets.findIndex(s => s.id === activeId), exportFormulas);
+      downloadBlob(blob, fileName);
+      toast({
+        title: "Экспорт завершён",
+        description: `Файл ${fileName} загружен (листов: ${sheets.length})`,
+      });
+    } catch (e) {
+      console.error('Excel export error:', e);
+      toast({
+        title: "Ошибка экспорта",
+        description: "Не удалось собрать файл Excel",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportToOds = async () => {
+    const fileName = fileNameFor(documentName, '.ods');
+    try {
+      const blob = await workbookToOds(sheets, sheets.findIndex(s => s.id === activeId), exportFormulas);
+      downloadBlob(blob, fileName);
+      toast({
+        title: "Экспорт завершён",
+        description: `Файл ${fileName} загружен (листов: ${sheets.length})`,
+      });
+    } catch (e) {
+      console.error('ODS export error:', e);
+      toast({
+        title: "Ошибка экспорта",
+        description: "Не удалось собрать файл OpenDocument",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Отчёт по активному листу: скрытые фильтром строки не попадают, выделение сужает диапазон
+  const buildReport = (format: ReportFormat, onlySelection: boolean) => {
+    const active = sheets.find(s => s.id === activeId)!;
+    const table = reportTable(active, exportName, filteredRows, onlySelection ? selectedRange : null);
+    return { content: renderReport(table, format), rowCount: table.rows.length };
+  };
+
+  const downloadReport = (name: string, format: ReportFormat, content: string) => {
+    const { extension, mime } = REPORT_FORMATS[format];
+    const fileName = fileNameFor(name.replace(/\.(md|html?|json)$/i, ''), extension);
+    downloadBlob(new Blob([content], { type: mime }), fileName);
     toast({
       title: "Экспорт завершён",
-      description: "Файл table.csv загружен",
+      description: `Файл ${fileName} загружен`,
+    });
+  };
+
+  // HTML кладём и разметкой, и текстом: в письме или документе вставится оформленная таблица
+  const copyReport = async (format: ReportFormat, content: string) => {
+    try {
+      if (format === 'html' && typeof ClipboardItem !== 'undefined') {
+        await navigator.clipboard.write([new ClipboardItem({
+          'text/html': new Blob([content], { type: 'text/html' }),
+          'text/plain': new Blob([content], { type: 'text/plain' }),
+        })]);
+      } else {
+        await navigator.clipboard.writeText(content);
+      }
+      toast({
+        title: "Скопировано",
+        description: `${REPORT_FORMATS[format].label} в буфере обмена`,
+      });
+    } catch (e) {
+      console.error('Clipboard error:', e);
+      toast({
+        title: "Не удалось скопировать",
+        description: "Браузер не дал доступ к буферу обмена — скачайте файл",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Предпросмотр читает документ из хранилища — сначала дописываем несохранённые правки
+  const openPrintView = async () => {
+    await autosave.retry();
+    navigate(`/doc/${documentId}/print?sheet=${sheets.findIndex(s => s.id === activeId)}`);
+  };
+
+  const selectSheet = (id: string) => {
+    workbook.setActive(id);
+    setSelection(null);
+  };
+
+  const addSheet = () => {
+    workbook.addSheet();
+    setSelection(null);
+  };
+
+  const duplicateSheet = (id: string) => {
+    workbook.duplicateSheet(id);
+    setSelection(null);
+  };
+
+  const deleteSheet = (id: string) => {
+    const name = sheets.find(s => s.id === id)?.name;
+    takeSafetySnapshot(`Перед удалением листа «${name}»`);
+    workbook.deleteSheet(id);
+    history.forgetSheet(id);
+    setSelection(null);
+    toast({
+      title: "Лист удалён",
+      description: `«${name}» удалён из книги`,
     });
   };
 
   const clearAll = () => {
-    setCells(prev => prev.map(cell => ({ ...cell, value: '' })));
+    takeSafetySnapshot(`Перед очисткой листа «${sheets.find(s => s.id === activeId)?.name}»`);
+    applyStructure('Очистка листа', sheet.clear);
     toast({
       title: "Очищено",
       description: "Все данные удалены",
+      action: (
+        <ToastAction altText="Отменить очистку" onClick={undo}>
+          Отменить
+        </ToastAction>
+      ),
     });
   };
 
   const autoDetectColumnTypes = () => {
-    const newColumns = columns.map(col => {
-      const columnValues = cells
-        .filter(cell => cell.col === col.index)
-        .map(cell => cell.value);
+    const newColumns = columns.map((col, index) => {
+      const columnValues = sheet.getColumnCells(index).map(cell => cell.value);
       const detectedType = detectColumnType(columnValues);
       return { ...col, type: detectedType };
     });
-    setColumns(newColumns);
+    applyColumns('Авто-типы', newColumns);
     toast({
       title: "Типы определены",
       description: "Столбцы автоматически настроены",
     });
   };
 
-  const updateColumnConfig = (index: number, field: 'name' | 'type', value: string) => {
-    setColumns(prev => 
-      prev.map(col => 
-        col.index === index 
-          ? { ...col, [field]: value } 
-          : col
-      )
+  const updateColumnConfig = useCallback((index: number, field: 'name' | 'type', value: string) => {
+    const current = sheet.getColumns();
+    const column = current[index];
+    if (!column) return;
+    applyColumns(
+      field === 'name' ? `Название столбца → ${value}` : `Тип столбца → ${column.name}`,
+      current.map((c, i) => (i === index ? { ...c, [field]: value } : c)),
+      `column:${column.id}:${field}`
     );
+  }, [sheet, applyColumns]);
+
+  const insertRow = useCallback((at: number) => {
+    applyStructure(`Вставка строки ${at + 1}`, () => sheet.insertRows(at));
+    setSelection(prev => prev && mapSelection(prev, pos => pos.row >= at ? { ...pos, row: pos.row + 1 } : pos));
+  }, [sheet, applyStructure]);
+
+  const deleteRow = useCallback((row: number) => {
+    applyStructure(`Удаление строки ${row + 1}`, () => sheet.deleteRows(row));
+    setSelection(prev => prev && mapSelection(prev, pos => pos.row < row ? pos : {
+      ...pos,
+      row: Math.min(Math.max(pos.row - 1, row), sheet.getRowCount() - 1),
+    }));
+  }, [sheet, applyStructure]);
+
+  const moveRow = useCallback((from: number, to: number) => {
+    if (from === to) return;
+    applyStructure(`Перемещение строки ${from + 1} → ${to + 1}`, () => sheet.moveRow(from, to));
+    setSelection(prev => prev && mapSelection(prev, pos => ({ ...pos, row: movedIndex(pos.row, from, to) })));
+  }, [sheet, applyStructure]);
+
+  const insertColumn = useCallback((at: number) => {
+    applyStructure('Вставка столбца', () => sheet.insertColumns(at));
+    setSelection(prev => prev && mapSelection(prev, pos => pos.col >= at ? { ...pos, col: pos.col + 1 } : pos));
+  }, [sheet, applyStructure]);
+
+  const deleteColumn = useCallback((col: number) => {
+    applyStructure(`Удаление столбца ${sheet.getColumns()[col]?.name}`, () => sheet.deleteColumns(col));
+    setSelection(prev => prev && mapSelection(prev, pos => pos.col < col ? pos : {
+      ...pos,
+      col: Math.min(Math.max(pos.col - 1, col), sheet.getColCount() - 1),
+    }));
+  }, [sheet, applyStructure]);
+
+  const moveColumn = useCallback((from: number, to: number) => {
+    if (from === to) return;
+    applyStructure(`Перемещение столбца ${sheet.getColumns()[from]?.name}`, () => sheet.moveColumn(from, to));
+    setSelection(prev => prev && mapSelection(prev, pos => ({ ...pos, col: movedIndex(pos.col, from, to) })));
+  }, [sheet, applyStructure]);
+
+  const sortColumn = useCallback((col: number, direction: SortDirection) => {
+    const column = sheet.getColumns()[col];
+    if (!column) return;
+    const order = sortedRowOrder(sheet.getRowCount(), row => formulas.getDisplayValue(row, col), column.type, direction);
+    if (order.every((row, i) => row === i)) return;
+    applyStructure(
+      `Сортировка ${column.name} ${direction === 'asc' ? '↑' : '↓'}`,
+      () => sheet.reorderRows(order)
+    );
+    setSelection(null);
+  }, [sheet, formulas, applyStructure]);
+
+  const filterColumn = useCallback((col: number, filter: ColumnFilter | null) => {
+    const column = sheet.getColumns()[col];
+    if (!column) return;
+    setFilters(prev => {
+      const { [column.id]: _removed, ...rest } = prev[activeId] ?? {};
+      return { ...prev, [activeId]: filter ? { ...rest, [column.id]: filter } : rest };
+    });
+  }, [sheet, activeId]);
+
+  const clearFilters = () => {
+    setFilters(prev => ({ ...prev, [activeId]: {} }));
   };
 
-  const getCellValue = (row: number, col: number) => {
-    return cells.find(c => c.row === row && c.col === col)?.value || '';
+  const notifyPasted = useCallback((rows: number, cols: number) => {
+    toast({
+      title: "Вставлено",
+      description: `Диапазон ${rows}×${cols} вставлен из буфера обмена`,
+    });
+  }, [toast]);
+
+  const clipboard = useSheetClipboard({
+    sheet,
+    selection,
+    applyCells,
+    onSelectionChange: setSelection,
+    onPasted: notifyPasted,
+  });
+
+  const autosave = useAutosave({
+    workbook,
+    documentId,
+    onRestored: (document) => {
+      history.clear();
+      setDocumentName(document.name);
+      provenanceRef.current = { createdAt: document.createdAt, origin: document.origin };
+      // Ссылка вида /doc/:id?cell=B5 сразу выделяет нужную ячейку
+      const target = parseRef(searchParams.get('cell') ?? '');
+      const active = workbook.getActiveSheet().store;
+      setSelection(target && target.row < active.getRowCount() && target.col < active.getColCount()
+        ? cellSelection(target.row, target.col)
+        : null);
+    },
+    onError: (error: AutosaveError) => {
+      toast({
+        title: error === 'quota' ? "Недостаточно места" : "Автосохранение не работает",
+        description: error === 'quota'
+          ? "Браузеру не хватает места для таблицы. Экспортируйте её в Excel, чтобы не потерять изменения"
+          : "Изменения не сохраняются в браузере. Экспортируйте таблицу перед закрытием страницы",
+        variant: "destructive",
+        action: <ToastAction altText="Экспорт Excel" onClick={exportToExcel}>Экспорт Excel</ToastAction>,
+      });
+    },
+  });
+
+  // После скачивания или слияния в хранилище лежит новая версия — показываем её
+  const loadSyncedDocument = (document: StoredDocument) => {
+    if (document.id !== documentId) return;
+    workbook.replaceSheets(document.sheets, document.activeIndex);
+    history.clear();
+    setDocumentName(document.name);
+    provenanceRef.current = { createdAt: document.createdAt, origin: document.origin };
+    setFilters({});
+    setSelection(null);
+    setComparingId(null);
   };
+  const sync = useSync({ onDocumentChanged: loadSyncedDocument });
 
-  const getColumnIcon = (type: string) => {
-    switch (type) {
-      case 'date': return 'Calendar';
-      case 'title': return 'Heading';
-      case 'info': return 'FileText';
-      default: return 'Type';
+  // silent — фоновая синхронизация при появлении сети: без сообщений, конфликт всё равно откроет диалог
+  const synchronize = async (silent = false) => {
+    // Сначала дописываем отложенное автосохранение, иначе на сервер уйдёт устаревшая версия
+    await autosave.retry();
+    try {
+      const outcome = await sync.syncDocument(documentId);
+      if (!outcome || silent) return;
+      const messages = {
+        unchanged: "Изменений нет",
+        pushed: "Изменения отправлены на сервер",
+        pulled: "Загружена версия с сервера",
+        merged: "Правки объединены с серверной версией",
+        conflict: "Есть конфликтующие правки — выберите, какие оставить",
+      };
+      toast({ title: "Синхронизация", description: messages[outcome.status] });
+    } catch (e) {
+      console.error('Sync error:', e);
+      if (silent) return;
+      toast({
+        title: "Синхронизация не удалась",
+        description: e instanceof SyncNetworkError
+          ? "Сервер недоступен. Изменения сохранены в браузере и будут отправлены позже"
+          : "Попробуйте ещё раз",
+        variant: "destructive",
+      });
     }
   };
 
-  const getColumnColor = (type: string) => {
-    switch (type) {
-      case 'date': return 'text-cyan-400';
-      case 'title': return 'text-purple-400';
-      case 'info': return 'text-yellow-400';
-      default: return 'text-slate-400';
+  const resolveSyncConflict = async (choices: ConflictChoice[]) => {
+    try {
+      await sync.resolve(choices);
+      toast({ title: "Правки объединены", description: "Результат отправлен на сервер" });
+    } catch (e) {
+      console.error('Sync resolve error:', e);
+      toast({
+        title: "Не удалось объединить",
+        description: e instanceof SyncConflictError
+          ? "Документ изменился на сервере ещё раз — синхронизируйте снова"
+          : "Сервер недоступен, попробуйте позже",
+        variant: "destructive",
+      });
+      sync.skip();
     }
   };
 
+  // Адрес активной ячейки держим в ссылке, чтобы ею можно было поделиться
+  const cellParam = searchParams.get('cell');
+  const cellAddress = selectedCell ? `${columnLabel(selectedCell.col)}${selectedCell.row + 1}` : null;
+  const isDocumentReady = autosave.status !== 'restoring' && autosave.status !== 'missing';
+  useEffect(() => {
+    if (!isDocumentReady || cellParam === cellAddress) return;
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (cellAddress) next.set('cell', cellAddress);
+      else next.delete('cell');
+      return next;
+    }, { replace: true });
+  }, [isDocumentReady, cellParam, cellAddress, setSearchParams]);
+
+  // Правки, сделанные без сети, уходят на сервер, как только она появляется — и из открытого документа тоже
+  const synchronizeRef = useRef(synchronize);
+  synchronizeRef.current = synchronize;
+  const isSyncEnabled = sync.isEnabled;
+  useEffect(() => {
+    if (!isSyncEnabled || !isDocumentReady) return;
+    const handleOnline = () => synchronizeRef.current(true);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [isSyncEnabled, isDocumentReady]);
+
+  const snapshots = useSnapshots({ workbook, documentId, enabled: isDocumentReady });
+
+  const ocrQueue = useOcrQueue({
+    documentId,
+    enabled: isDocumentReady,
+    onRecognized: insertQueuedText,
+    onFailed: (photo, message) => {
+      toast({
+        title: "Фото из очереди не распознано",
+        description: `${photo.sheetName}: ${message}`,
+        variant: "destructive"
+      });
+    },
+  });
+  const activeSheetName = sheets.find(s => s.id === activeId)!.name;
+  // Значок ожидания — в левой верхней ячейке диапазона, куда попадёт текст
+  const pendingCells = useMemo(() => {
+    const byRow = new Map<number, Set<number>>();
+    ocrQueue.pending
+      .filter(photo => (photo.sheetId ? photo.sheetId === activeId : photo.sheetName === activeSheetName))
+      .forEach(({ range }) => {
+        if (!byRow.has(range.top)) byRow.set(range.top, new Set());
+        byRow.get(range.top)!.add(range.left);
+      });
+    return byRow;
+  }, [ocrQueue.pending, activeId, activeSheetName]);
+  const comparing = snapshots.snapshots.find(s => s.id === comparingId) ?? null;
+  const activeSheetIndex = sheets.findIndex(s => s.id === activeId);
+  const comparedSheet = useMemo(
+    () => (comparing ? snapshotSheet(comparing, activeSheetName, activeSheetIndex) : null),
+    [comparing, activeSheetName, activeSheetIndex]
+  );
+  const snapshotDiff = useSnapshotDiff(sheet, comparedSheet);
+  const selectedChanges = selectedRange
+    ? snapshotDiff.changes.filter(diff => rangeContains(selectedRange, diff.row, diff.col))
+    : [];
+
+  // Страховочная версия перед опасным действием; если сохранить не вышло, действие всё равно выполняется —
+  // оно отменяется через историю
+  const takeSafetySnapshot = (name: string) => {
+    snapshots.take(name, 'safety').catch(e => console.error('Snapshot error:', e));
+  };
+
+  const takeSnapshot = async (name: string) => {
+    try {
+      await snapshots.take(name, 'manual');
+      toast({
+        title: "Версия сохранена",
+        description: `«${name}»`,
+      });
+    } catch (e) {
+      console.error('Snapshot error:', e);
+      toast({
+        title: "Не удалось сохранить версию",
+        description: isQuotaError(e) ? "В браузере закончилось место" : "Попробуйте ещё раз",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteSnapshot = (id: string) => {
+    if (id === comparingId) setComparingId(null);
+    snapshots.remove(id).catch(e => console.error('Snapshot error:', e));
+  };
+
+  const restoreSnapshotCells = () => {
+    if (!selectedRange || selectedChanges.length === 0) return;
+    applyCells(
+      `Вернуть из версии ${rangeLabel(columns, selectedRange)}`,
+      selectedChanges.map(({ row, col, before }) => ({ row, col, value: before }))
+    );
+  };
+
+  const restoreSnapshot = async () => {
+    if (!comparing) return;
+    // Восстановление не отменяется через историю, поэтому без страховочной версии не продолжаем
+    try {
+      await snapshots.take(`Перед восстановлением «${comparing.name}»`, 'safety');
+    } catch (e) {
+      console.error('Snapshot error:', e);
+      toast({
+        title: "Версия не восстановлена",
+        description: "Не удалось сохранить текущее состояние перед восстановлением",
+        variant: "destructive",
+      });
+      return;
+    }
+    workbook.replaceSheets(comparing.sheets, comparing.activeIndex);
+    history.clear();
+    setFilters({});
+    setSelection(null);
+    setComparingId(null);
+    toast({
+      title: "Версия восстановлена",
+      description: `«${comparing.name}» от ${formatSnapshotTime(comparing.createdAt)}`,
+    });
+  };
+
+  const clearSelection = useCallback(() => {
+    if (!selection) return;
+    const range = selectionRange(selection);
+    applyCells(
+      `Очистить ${rangeLabel(sheet.getColumns(), range)}`,
+      sheet.getCells()
+        .filter(cell => rangeContains(range, cell.row, cell.col))
+        .map(cell => ({ ...cell, value: '' }))
+    );
+  }, [sheet, selection, applyCells]);
+
+  const fillSelection = (value: string) => {
+    if (!selectedRange) return;
+    applyCells(
+      `Заполнить ${rangeLabel(columns, selectedRange)}`,
+      rangePositions(selectedRange).map(pos => ({ ...pos, value }))
+    );
+  };
+
+  const changeSelectionCase = (mode: CaseMode) => {
+    if (!selectedRange) return;
+    applyCells(
+      `Регистр ${rangeLabel(columns, selectedRange)}`,
+      sheet.getCells()
+        .filter(cell => rangeContains(selectedRange, cell.row, cell.col))
+        .map(cell => ({ ...cell, value: changeCase(cell.value, mode) }))
+    );
+  };
+
+  const applySelectionType = (type: ColumnType) => {
+    if (!selectedRange) return;
+    applyColumns(`Тип столбцов ${rangeLabel(columns, selectedRange)}`, columns.map((col, index) =>
+      index >= selectedRange.left && index <= selectedRange.right ? { ...col, type } : col
+    ));
+  };
+
+  if (autosave.status === 'missing') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 flex items-center justify-center px-4">
+        <Card className="p-8 max-w-md text-center border-slate-700 bg-slate-800/80">
+          <Icon name="FileX" size={40} className="mx-auto mb-4 text-slate-500" />
+          <h2 className="text-xl font-semibold text-slate-100 mb-2">Документ не найден</h2>
+          <p className="text-slate-400 mb-6">Возможно, он был удалён или ссылка содержит ошибку.</p>
+          <Button asChild className="bg-gradient-to-r from-purple-500 to-cyan-500">
+            <Link to="/">К списку документов</Link>
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
       <div className="container mx-auto py-8 px-4">
@@ -463,9 +1149,36 @@ const Index = () => {
             <h1 className="text-5xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-cyan-400 bg-clip-text text-transparent mb-2">
               Excel Voice Pro
             </h1>
-            <p className="text-slate-400">Голосовое и визуальное заполнение таблиц с ИИ</p>
+            <div className="flex items-center gap-3 text-slate-400">
+              <Link to="/" className="flex items-center gap-1 text-cyan-400 hover:underline">
+                <Icon name="ArrowLeft" size={16} />
+                Документы
+              </Link>
+              <span className="text-slate-600">/</span>
+              <span className="text-slate-200">{documentName || 'Голосовое и визуальное заполнение таблиц с ИИ'}</span>
+            </div>
           </div>
           <div className="flex gap-2 items-center">
+            <Button
+              onClick={undo}
+              disabled={!undoLabel}
+              variant="outline"
+              size="icon"
+              className="border-slate-600 hover:bg-slate-700/50"
+              title={undoLabel ? `Отменить: ${undoLabel} (Ctrl+Z)` : 'Нечего отменять'}
+            >
+              <Icon name="Undo2" size={18} />
+            </Button>
+            <Button
+              onClick={redo}
+              disabled={!redoLabel}
+              variant="outline"
+              size="icon"
+              className="border-slate-600 hover:bg-slate-700/50"
+              title={redoLabel ? `Повторить: ${redoLabel} (Ctrl+Shift+Z)` : 'Нечего повторять'}
+            >
+              <Icon name="Redo2" size={18} />
+            </Button>
             <Button
               onClick={() => setAiEnabled(!aiEnabled)}
               variant={aiEnabled ? "default" : "outline"}
@@ -524,7 +1237,7 @@ const Index = () => {
                     <div className="p-3 bg-cyan-500/10 rounded-lg border border-cyan-500/50 shadow-lg">
                       <p className="text-sm text-cyan-400">
                         Выбрана: <span className="font-bold text-cyan-300">
-                          {columns[selectedCell.col]?.name}{selectedCell.row + 1}
+                          {selectedRange && rangeLabel(columns, selectedRange)}
                         </span>
                       </p>
                     </div>
@@ -551,6 +1264,22 @@ const Index = () => {
                     <Icon name={isProcessingOCR ? "Loader2" : "Upload"} size={24} className={`mr-2 ${isProcessingOCR ? 'animate-spin' : ''}`} />
                     {isProcessingOCR ? 'Обработка...' : 'Загрузить фото'}
                   </Button>
+                  {(ocrQueue.pending.length > 0 || !ocrQueue.isOnline) && (
+                    <div className="p-3 flex items-center justify-between gap-2 bg-orange-500/10 rounded-lg border border-orange-500/50">
+                      <p className="text-sm text-orange-300">
+                        <Icon name={ocrQueue.isOnline ? 'CloudUpload' : 'WifiOff'} size={16} className="inline mr-1" />
+                        {ocrQueue.isOnline ? '' : 'Нет сети. '}
+                        {ocrQueue.pending.length > 0
+                          ? `В очереди фото: ${ocrQueue.pending.length}`
+                          : 'Фото будут отправлены позже'}
+                      </p>
+                      {ocrQueue.isOnline && ocrQueue.pending.length > 0 && (
+                        <Button size="sm" variant="outline" onClick={ocrQueue.retry} className="border-slate-600 hover:bg-slate-700/50">
+                          Отправить
+                        </Button>
+                      )}
+                    </div>
+                  )}
                   <div className="p-4 bg-cyan-500/10 rounded-lg border border-cyan-500/50">
                     <p className="text-sm text-cyan-400">
                       <Icon name="Sparkles" size={16} className="inline mr-1" />
@@ -561,7 +1290,7 @@ const Index = () => {
                     <div className="p-3 bg-cyan-500/10 rounded-lg border border-cyan-500/50 shadow-lg">
                       <p className="text-sm text-cyan-400">
                         Текст будет в ячейке: <span className="font-bold text-cyan-300">
-                          {columns[selectedCell.col]?.name}{selectedCell.row + 1}
+                          {selectedRange && rangeLabel(columns, selectedRange)}
                         </span>
                       </p>
                     </div>
@@ -617,9 +1346,54 @@ const Index = () => {
                 Управление
               </h3>
               <div className="space-y-2">
-                <Button onClick={exportToCSV} variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
-                  <Icon name="Download" size={18} className="mr-2 text-green-400" />
-                  Экспорт CSV
+                <div className="flex items-center justify-between rounded-md border border-slate-600 px-3 py-2">
+                  <Label htmlFor="export-formulas" className="text-sm text-slate-300">
+                    Экспорт формул
+                  </Label>
+                  <Switch id="export-formulas" checked={exportFormulas} onCheckedChange={setExportFormulas} />
+                </div>
+                <Button onClick={saveProject} variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
+                  <Icon name="FileJson" size={18} className="mr-2 text-cyan-400" />
+                  Сохранить проект
+                </Button>
+                <Button onClick={shareSnapshot} variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
+                  <Icon name="Share2" size={18} className="mr-2 text-purple-400" />
+                  Поделиться снимком
+                </Button>
+                <CsvExportDialog
+                  defaultName={exportName}
+                  onExport={exportToCSV}
+                />
+                <ReportExportDialog
+                  defaultName={exportName}
+                  selectionLabel={selectedRange && !isSingleCell(selectedRange) ? rangeLabel(columns, selectedRange) : null}
+                  isFiltered={filteredRows !== null}
+                  buildReport={buildReport}
+                  onDownload={downloadReport}
+                  onCopy={copyReport}
+                />
+                <Button onClick={exportToOds} variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
+                  <Icon name="Sheet" size={18} className="mr-2 text-cyan-400" />
+                  Экспорт ODS
+                </Button>
+                <Button onClick={exportToExcel} variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
+                  <Icon name="FileSpreadsheet" size={18} className="mr-2 text-green-400" />
+                  Экспорт Excel
+                </Button>
+                <Button onClick={openPrintView} variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
+                  <Icon name="Printer" size={18} className="mr-2 text-slate-300" />
+                  Печать / PDF
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept={`.xlsx,${XLSX_MIME},.ods,${ODS_MIME},.csv,.tsv,.txt,text/csv,text/tab-separated-values`}
+                  className="hidden"
+                  onChange={openImportFile}
+                />
+                <Button onClick={() => importInputRef.current?.click()} variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
+                  <Icon name="FileInput" size={18} className="mr-2 text-cyan-400" />
+                  Импорт Excel / ODS / CSV
                 </Button>
                 <Button onClick={clearAll} variant="outline" className="w-full justify-start border-slate-600 hover:bg-slate-700/50">
                   <Icon name="Trash2" size={18} className="mr-2 text-red-400" />
@@ -627,136 +1401,174 @@ const Index = () => {
                 </Button>
               </div>
             </Card>
+
+            <SnapshotsPanel
+              snapshots={snapshots.snapshots}
+              comparingId={comparingId}
+              onTake={takeSnapshot}
+              onCompare={setComparingId}
+              onDelete={deleteSnapshot}
+            />
           </aside>
 
-          <main>
-            <Card className="p-4 shadow-2xl border-slate-700 overflow-x-auto bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur">
+          <main className="min-w-0">
+            <Card className="p-4 shadow-2xl border-slate-700 bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur">
               <div className="mb-4 flex items-center justify-between">
                 <h2 className="text-lg font-semibold text-slate-100">Таблица данных</h2>
-                <div className="flex items-center gap-2 text-sm text-slate-400">
-                  <Icon name="Save" size={16} className="text-green-400" />
-                  <span>Автосохранение</span>
+                <div className="flex items-center gap-2">
+                  <AutosaveIndicator
+                    status={autosave.status}
+                    error={autosave.error}
+                    savedAt={autosave.savedAt}
+                    onRetry={autosave.retry}
+                  />
+                  {sync.isEnabled && (
+                    <Button
+                      onClick={() => synchronize()}
+                      disabled={sync.isSyncing || !isDocumentReady}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 hover:bg-slate-700/50"
+                      title="Синхронизировать с сервером"
+                    >
+                      <Icon name="RefreshCw" size={14} className={`text-cyan-400 ${sync.isSyncing ? 'animate-spin' : ''}`} />
+                    </Button>
+                  )}
                 </div>
               </div>
-              <div className="border border-slate-700 rounded-lg overflow-hidden shadow-xl">
-                <table className="w-full border-collapse bg-slate-950/50">
-                  <thead>
-                    <tr className="bg-slate-900/80">
-                      <th className="border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-300 w-16">#</th>
-                      {columns.map((col) => (
-                        <th key={col.index} className="border border-slate-700 px-2 py-2 min-w-[140px]">
-                          <Dialog open={editingColumn === col.index} onOpenChange={(open) => setEditingColumn(open ? col.index : null)}>
-                            <DialogTrigger asChild>
-                              <button className="w-full flex items-center justify-center gap-2 hover:bg-slate-800/50 rounded p-2 transition-colors">
-                                <Icon name={getColumnIcon(col.type)} size={16} className={getColumnColor(col.type)} />
-                                <span className={`text-sm font-semibold ${getColumnColor(col.type)}`}>
-                                  {col.name}
-                                </span>
-                                <Icon name="Settings2" size={14} className="text-slate-500" />
-                              </button>
-                            </DialogTrigger>
-                            <DialogContent className="bg-slate-900 border-slate-700">
-                              <DialogHeader>
-                                <DialogTitle className="text-slate-100">Настройка столбца {col.name}</DialogTitle>
-                              </DialogHeader>
-                              <div className="space-y-4 mt-4">
-                                <div>
-                                  <label className="text-sm text-slate-400 mb-2 block">Название</label>
-                                  <Input
-                                    value={col.name}
-                                    onChange={(e) => updateColumnConfig(col.index, 'name', e.target.value)}
-                                    className="bg-slate-800 border-slate-700"
-                                  />
-                                </div>
-                                <div>
-                                  <label className="text-sm text-slate-400 mb-2 block">Тип данных</label>
-                                  <Select 
-                                    value={col.type} 
-                                    onValueChange={(value) => updateColumnConfig(col.index, 'type', value)}
-                                  >
-                                    <SelectTrigger className="bg-slate-800 border-slate-700">
-                                      <SelectValue />
-                                    </SelectTrigger>
-                                    <SelectContent className="bg-slate-900 border-slate-700">
-                                      <SelectItem value="date">
-                                        <span className="flex items-center gap-2">
-                                          <Icon name="Calendar" size={16} className="text-cyan-400" />
-                                          Дата
-                                        </span>
-                                      </SelectItem>
-                                      <SelectItem value="title">
-                                        <span className="flex items-center gap-2">
-                                          <Icon name="Heading" size={16} className="text-purple-400" />
-                                          Название
-                                        </span>
-                                      </SelectItem>
-                                      <SelectItem value="info">
-                                        <span className="flex items-center gap-2">
-                                          <Icon name="FileText" size={16} className="text-yellow-400" />
-                                          Информация
-                                        </span>
-                                      </SelectItem>
-                                      <SelectItem value="text">
-                                        <span className="flex items-center gap-2">
-                                          <Icon name="Type" size={16} className="text-slate-400" />
-                                          Текст
-                                        </span>
-                                      </SelectItem>
-                                    </SelectContent>
-                                  </Select>
-                                </div>
-                                <div className="pt-2 border-t border-slate-700">
-                                  <Button
-                                    onClick={() => {
-                                      autoFillColumn(col.index);
-                                      setEditingColumn(null);
-                                    }}
-                                    className="w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600"
-                                  >
-                                    <Icon name="Wand2" size={16} className="mr-2" />
-                                    Автозаполнить столбец
-                                  </Button>
-                                </div>
-                              </div>
-                            </DialogContent>
-                          </Dialog>
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {Array.from({ length: ROWS }).map((_, rowIndex) => (
-                      <tr key={rowIndex} className="hover:bg-slate-800/30 transition-colors">
-                        <td className="border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-500 bg-slate-900/50">
-                          {rowIndex + 1}
-                        </td>
-                        {Array.from({ length: COLS }).map((_, colIndex) => (
-                          <td
-                            key={colIndex}
-                            className={`border border-slate-700 p-0 ${
-                              selectedCell?.row === rowIndex && selectedCell?.col === colIndex
-                                ? 'ring-2 ring-purple-500 ring-inset'
-                                : ''
-                            }`}
-                            onClick={() => setSelectedCell({ row: rowIndex, col: colIndex })}
-                          >
-                            <Input
-                              value={getCellValue(rowIndex, colIndex)}
-                              onChange={(e) => updateCell(rowIndex, colIndex, e.target.value)}
-                              className="border-0 rounded-none focus-visible:ring-0 h-10 px-3 bg-transparent text-slate-100"
-                              placeholder="..."
-                            />
-                          </td>
-                        ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+              {comparing && (
+                <SnapshotCompareBar
+                  snapshot={comparing}
+                  changes={snapshotDiff.changes}
+                  selectedChanges={selectedChanges.length}
+                  onRestoreCells={restoreSnapshotCells}
+                  onRestoreAll={restoreSnapshot}
+                  onClose={() => setComparingId(null)}
+                />
+              )}
+              {hasActiveFilters(sheetFilters) && filteredRows && (
+                <div className="mb-3 flex items-center justify-between gap-2 p-2 rounded-lg border border-cyan-500/30 bg-cyan-500/10">
+                  <span className="text-sm text-cyan-300 px-2">
+                    <Icon name="Filter" size={14} className="inline mr-2" />
+                    Показано строк: {filteredRows.length} из {rowCount}
+                  </span>
+                  <Button size="sm" variant="outline" onClick={clearFilters} className="border-slate-600 hover:bg-slate-700/50">
+                    <Icon name="FilterX" size={16} className="mr-2 text-cyan-400" />
+                    Сбросить фильтры
+                  </Button>
+                </div>
+              )}
+              {selectedRange && !isSingleCell(selectedRange) && (
+                <SelectionToolbar
+                  label={rangeLabel(columns, selectedRange)}
+                  cellCount={rangeSize(selectedRange)}
+                  onClear={clearSelection}
+                  onFill={fillSelection}
+                  onChangeCase={changeSelectionCase}
+                  onApplyType={applySelectionType}
+                />
+              )}
+              {autosave.status === 'restoring' ? (
+                <div className="flex h-64 items-center justify-center rounded-lg border border-slate-700 text-slate-400">
+                  <Icon name="Loader2" size={20} className="mr-2 animate-spin text-cyan-400" />
+                  Загрузка таблицы…
+                </div>
+              ) : (
+                <SheetGrid
+                  key={activeId}
+                  sheet={sheet}
+                  formulas={formulas}
+                  rows={filteredRows}
+                  filters={sheetFilters}
+                  diff={snapshotDiff.byRow}
+                  pending={pendingCells}
+                  selection={selection}
+                  onSelectCell={selectCell}
+                  onSelectRow={selectRow}
+                  onSelectColumn={selectColumn}
+                  onClearSelection={clearSelection}
+                  onCopy={clipboard.onCopy}
+                  onCut={clipboard.onCut}
+                  onPaste={clipboard.onPaste}
+                  onCellChange={updateCell}
+                  onUpdateColumn={updateColumnConfig}
+                  onAutoFillColumn={autoFillColumn}
+                  onInsertRow={insertRow}
+                  onDeleteRow={deleteRow}
+                  onMoveRow={moveRow}
+                  onInsertColumn={insertColumn}
+                  onDeleteColumn={deleteColumn}
+                  onMoveColumn={moveColumn}
+                  onSortColumn={sortColumn}
+                  onFilterColumn={filterColumn}
+                />
+              )}
+              <Button
+                onClick={() => insertRow(rowCount)}
+                variant="outline"
+                className="mt-3 w-full border-dashed border-slate-600 hover:bg-slate-700/50"
+              >
+                <Icon name="Plus" size={16} className="mr-2" />
+                Добавить строку
+              </Button>
+              <SheetTabs
+                sheets={sheets}
+                activeId={activeId}
+                onSelect={selectSheet}
+                onAdd={addSheet}
+                onRename={workbook.renameSheet}
+                onDuplicate={duplicateSheet}
+                onDelete={deleteSheet}
+                onMove={workbook.moveSheet}
+              />
             </Card>
           </main>
         </div>
       </div>
+
+      {importing && (
+        <ImportDialog
+          fileName={importing.fileName}
+          sheets={importing.sheets}
+          onImport={importSheets}
+          onAppend={appendXlsxSheet}
+          onCancel={() => setImporting(null)}
+        />
+      )}
+
+      {csvImport && (
+        <CsvImportDialog
+          fileName={csvImport.fileName}
+          bytes={csvImport.bytes}
+          sheetName={sheets.find(s => s.id === activeId)?.name ?? ''}
+          filledRows={csvImport.filledRows}
+          onImport={importCsv}
+          onCancel={() => setCsvImport(null)}
+        />
+      )}
+
+      {mappingImport && (
+        <ColumnMappingDialog
+          fileName={mappingImport.fileName}
+          rows={mappingImport.rows}
+          hasHeader={mappingImport.hasHeader}
+          columns={columns}
+          sheetName={sheets.find(s => s.id === activeId)?.name ?? ''}
+          filledRows={mappingImport.filledRows}
+          onApply={appendMapped}
+          onCancel={() => setMappingImport(null)}
+        />
+      )}
+
+      {sync.conflict && (
+        <SyncConflictDialog
+          key={sync.conflict.local.id}
+          documentName={sync.conflict.local.name}
+          conflicts={sync.conflict.conflicts}
+          onResolve={resolveSyncConflict}
+          onSkip={sync.skip}
+        />
+      )}
     </div>
   );
 };
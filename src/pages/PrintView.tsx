@@ -0,0 +1,305 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import Icon from '@/components/ui/icon';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import PrintTable from '@/components/sheet/PrintTable';
+import { createBlankSheetData } from '@/lib/documents';
+import {
+  columnGroups,
+  groupWidths,
+  loadPrintOptions,
+  PAGE_FOOTER_MM,
+  PAGE_HEADER_MM,
+  PAGE_MARGIN_MM,
+  pageSize,
+  paginateRows,
+  printSheet,
+  savePrintOptions,
+  tableArea,
+  type PageFit,
+  type PageOrientation,
+  type PrintOptions,
+} from '@/lib/print';
+import { loadDocument, type StoredDocument } from '@/lib/storage';
+import { createWorkbookStore } from '@/lib/workbook';
+
+interface PrintPage {
+  group: number;
+  rows: number[];
+}
+
+const today = () => new Date().toLocaleDateString('ru-RU');
+
+const defaultTitle = (document: StoredDocument, index: number) =>
+  document.sheets.length > 1 ? `${document.name} — ${document.sheets[index]?.name}` : document.name;
+
+// Предпросмотр печати: страницы A4 такими, какими они выйдут из принтера или «Сохранить как PDF»
+const PrintView = () => {
+  const { id = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  // undefined — документ ещё загружается, null — не найден
+  const [document, setDocument] = useState<StoredDocument | null | undefined>(undefined);
+  const [loadError, setLoadError] = useState(false);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [options, setOptions] = useState(loadPrintOptions);
+  const [title, setTitle] = useState('');
+  const [date, setDate] = useState(today);
+  const [layout, setLayout] = useState<{ key: string; pages: PrintPage[] } | null>(null);
+  const measureRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDocument(id)
+      .then(doc => {
+        if (cancelled) return;
+        setDocument(doc);
+        if (doc) {
+          // Открывается лист, активный в редакторе
+          const index = Math.min(Math.max(0, Number(searchParams.get('sheet')) || 0), doc.sheets.length - 1);
+          setSheetIndex(index);
+          setTitle(defaultTitle(doc, index));
+        }
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.error('Print load error:', e);
+        setLoadError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, searchParams]);
+
+  const workbook = useMemo(
+    () => (document ? createWorkbookStore(document.sheets, createBlankSheetData) : null),
+    [document]
+  );
+  const sheet = useMemo(() => {
+    const source = workbook?.getState().sheets[sheetIndex];
+    return source ? printSheet(source) : null;
+  }, [workbook, sheetIndex]);
+
+  const area = tableArea(options.orientation);
+  const groups = useMemo(
+    () => (sheet ? columnGroups(sheet.widths, area.width, options.fit) : []),
+    [sheet, area.width, options.fit]
+  );
+  const widths = useMemo(
+    () => (sheet ? groups.map(group => groupWidths(sheet.widths, group, area.width, options.fit)) : []),
+    [sheet, groups, area.width, options.fit]
+  );
+
+  // Высоты строк зависят от переносов текста — замеряем их в скрытых таблицах той же ширины
+  const layoutKey = `${id}|${sheetIndex}|${options.orientation}|${options.fit}|${document?.updatedAt}`;
+  const isMeasuring = sheet !== null && layout?.key !== layoutKey;
+
+  useLayoutEffect(() => {
+    if (!isMeasuring || !measureRef.current) return;
+    const tables = Array.from(measureRef.current.querySelectorAll('table'));
+    const pages = tables.flatMap((table, group) => {
+      const headerHeight = table.tHead?.getBoundingClientRect().height ?? 0;
+      const rowHeights = Array.from(table.tBodies[0]?.rows ?? [], row => row.getBoundingClientRect().height);
+      return paginateRows(rowHeights, headerHeight, area.height).map(rows => ({ group, rows }));
+    });
+    setLayout({ key: layoutKey, pages });
+  }, [isMeasuring, layoutKey, area.height]);
+
+  const updateOptions = (patch: Partial<PrintOptions>) => {
+    setOptions(prev => {
+      const next = { ...prev, ...patch };
+      savePrintOptions(next);
+      return next;
+    });
+  };
+
+  const selectSheet = (value: string) => {
+    const index = Number(value);
+    setSheetIndex(index);
+    if (document) setTitle(defaultTitle(document, index));
+  };
+
+  if (loadError || document === null) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 flex items-center justify-center px-4">
+        <Card className="p-8 max-w-md text-center border-slate-700 bg-slate-800/80">
+          <Icon name="FileX" size={40} className="mx-auto mb-4 text-slate-500" />
+          <h2 className="text-xl font-semibold text-slate-100 mb-2">
+            {loadError ? 'Хранилище браузера недоступно' : 'Документ не найден'}
+          </h2>
+          <p className="text-slate-400 mb-6">
+            {loadError ? 'Не удалось прочитать таблицу для печати.' : 'Возможно, он был удалён или ссылка содержит ошибку.'}
+          </p>
+          <Button asChild className="bg-gradient-to-r from-purple-500 to-cyan-500">
+            <Link to="/">К списку документов</Link>
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const paper = pageSize(options.orientation);
+  const pages = layout?.key === layoutKey ? layout.pages : [];
+
+  return (
+    <div className="min-h-screen bg-slate-800 print:min-h-0 print:bg-white">
+      {/* Поля страницы задаём сами, поэтому у браузера их нет; фон заголовка таблицы печатается */}
+      <style>{`
+        @page { size: A4 ${options.orientation}; margin: 0; }
+        @media print { body { background: white; } }
+        .print-page { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+      `}</style>
+
+      <header className="sticky top-0 z-10 border-b border-slate-700 bg-slate-900/95 backdrop-blur print:hidden">
+        <div className="container mx-auto px-4 py-3 flex flex-wrap items-end gap-4">
+          <Link to={`/doc/${id}`} className="flex items-center gap-1 self-center text-cyan-400 hover:underline">
+            <Icon name="ArrowLeft" size={16} />
+            К таблице
+          </Link>
+
+          {document && document.sheets.length > 1 && (
+            <div className="space-y-1">
+              <Label className="text-xs text-slate-400">Лист</Label>
+              <Select value={String(sheetIndex)} onValueChange={selectSheet}>
+                <SelectTrigger className="w-40 bg-slate-800 border-slate-700 text-slate-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-900 border-slate-700">
+                  {document.sheets.map((s, i) => <SelectItem key={i} value={String(i)}>{s.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-xs text-slate-400">Ориентация</Label>
+            <Select value={options.orientation} onValueChange={(value) => updateOptions({ orientation: value as PageOrientation })}>
+              <SelectTrigger className="w-36 bg-slate-800 border-slate-700 text-slate-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                <SelectItem value="portrait">Книжная</SelectItem>
+                <SelectItem value="landscape">Альбомная</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-slate-400">Столбцы</Label>
+            <Select value={options.fit} onValueChange={(value) => updateOptions({ fit: value as PageFit })}>
+              <SelectTrigger className="w-56 bg-slate-800 border-slate-700 text-slate-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                <SelectItem value="width">Уместить по ширине страницы</SelectItem>
+                <SelectItem value="split">Переносить на следующие страницы</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1 flex-1 min-w-[200px]">
+            <Label htmlFor="print-title" className="text-xs text-slate-400">Заголовок</Label>
+            <Input
+              id="print-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="bg-slate-800 border-slate-700 text-slate-100"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Switch id="print-date" checked={options.showDate} onCheckedChange={(checked) => updateOptions({ showDate: checked })} />
+              <Label htmlFor="print-date" className="text-xs text-slate-400">Дата</Label>
+            </div>
+            <Input
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              disabled={!options.showDate}
+              className="w-32 bg-slate-800 border-slate-700 text-slate-100"
+            />
+          </div>
+
+          <Button onClick={() => window.print()} disabled={pages.length === 0} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+            <Icon name="Printer" size={18} className="mr-2" />
+            Печать / PDF
+          </Button>
+        </div>
+        <p className="container mx-auto px-4 pb-2 text-xs text-slate-500">
+          Для PDF выберите в окне печати «Сохранить как PDF». Страниц: {pages.length}
+        </p>
+      </header>
+
+      {isMeasuring && sheet && (
+        <div ref={measureRef} aria-hidden className="fixed left-[-10000px] top-0 invisible print:hidden">
+          {groups.map((group, g) => (
+            <PrintTable
+              key={g}
+              columns={sheet.columns}
+              rows={sheet.rows}
+              group={group}
+              widths={widths[g]}
+              rowIndexes={sheet.rows.map((_, r) => r)}
+            />
+          ))}
+        </div>
+      )}
+
+      {!sheet || pages.length === 0 ? (
+        <div className="flex h-64 items-center justify-center text-slate-400 print:hidden">
+          <Icon name="Loader2" size={20} className="mr-2 animate-spin text-cyan-400" />
+          Раскладка страниц…
+        </div>
+      ) : (
+        <main className="py-8 print:p-0">
+          {pages.map((page, i) => {
+            const group = groups[page.group];
+            return (
+              <div
+                key={i}
+                className="print-page mx-auto mb-8 flex flex-col overflow-hidden bg-white text-black shadow-2xl break-after-page last:break-after-auto print:m-0 print:shadow-none"
+                style={{
+                  width: `${paper.width}mm`,
+                  height: `${paper.height}mm`,
+                  padding: `${PAGE_MARGIN_MM}mm`,
+                }}
+              >
+                <div className="flex items-start justify-between gap-4" style={{ height: `${PAGE_HEADER_MM}mm` }}>
+                  <span className="truncate text-base font-semibold">{title}</span>
+                  {options.showDate && date && <span className="shrink-0 text-sm">{date}</span>}
+                </div>
+                <div className="flex-1 overflow-hidden">
+                  <PrintTable
+                    columns={sheet.columns}
+                    rows={sheet.rows}
+                    group={group}
+                    widths={widths[page.group]}
+                    rowIndexes={page.rows}
+                  />
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-600" style={{ height: `${PAGE_FOOTER_MM}mm` }}>
+                  <span>
+                    {groups.length > 1 && `Столбцы: ${sheet.columns[group[0]].name} — ${sheet.columns[group[group.length - 1]].name}`}
+                  </span>
+                  <span>Стр. {i + 1} из {pages.length}</span>
+                </div>
+              </div>
+            );
+          })}
+        </main>
+      )}
+    </div>
+  );
+};
+
+export default PrintView;
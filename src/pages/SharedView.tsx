@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import Icon from '@/components/ui/icon';
+import { useToast } from '@/hooks/use-toast';
+import ReadOnlySheet from '@/components/sheet/ReadOnlySheet';
+import { createBlankSheetData, documentFromProject } from '@/lib/documents';
+import { ProjectFileError, type ProjectFile } from '@/lib/project-file';
+import { ShareLinkError, readShareFragment } from '@/lib/share';
+import { isQuotaError, listDocuments, saveDocument } from '@/lib/storage';
+import { createWorkbookStore } from '@/lib/workbook';
+
+// rowCount в ссылке не проверить: лишние пустые строки в конце отбрасываем, лист заканчивается последней заполненной
+const trimEmptyRows = (project: ProjectFile): ProjectFile => ({
+  ...project,
+  sheets: project.sheets.map(sheet => ({
+    ...sheet,
+    rowCount: Math.min(sheet.rowCount, sheet.cells.reduce((last, cell) => (cell.value === '' ? last : Math.max(last, cell.row + 1)), 1)),
+  })),
+});
+
+const SharedView = () => {
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [project, setProject] = useState<ProjectFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCopying, setIsCopying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProject(null);
+    setError(null);
+    readShareFragment(hash)
+      .then(result => {
+        if (!cancelled) setProject(trimEmptyRows(result));
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.error('Shared link error:', e);
+        setError(e instanceof ShareLinkError || e instanceof ProjectFileError ? e.message : 'Не удалось открыть ссылку');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  // Формулы показываем вычисленными, как в самой таблице
+  const sheets = useMemo(() => {
+    if (!project) return [];
+    const workbook = createWorkbookStore(project.sheets, createBlankSheetData);
+    return workbook.getState().sheets.map(sheet => ({
+      id: sheet.id,
+      name: sheet.name,
+      columns: sheet.store.getColumns(),
+      rowCount: sheet.store.getRowCount(),
+      getValue: sheet.formulas.getDisplayValue,
+    }));
+  }, [project]);
+
+  const copyToDocuments = async () => {
+    if (!project) return;
+    setIsCopying(true);
+    try {
+      const names = (await listDocuments()).map(d => d.name);
+      const document = documentFromProject(project, names);
+      await saveDocument(document);
+      toast({
+        title: "Таблица скопирована",
+        description: `«${document.name}» добавлена в ваши документы`,
+      });
+      navigate(`/doc/${document.id}`);
+    } catch (e) {
+      console.error('Shared copy error:', e);
+      toast({
+        title: "Не удалось скопировать",
+        description: isQuotaError(e) ? 'В браузере закончилось место' : 'Хранилище браузера недоступно',
+        variant: "destructive",
+      });
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+      <div className="container mx-auto py-8 px-4">
+        <header className="mb-8 flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-5xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-cyan-400 bg-clip-text text-transparent mb-2">
+              Excel Voice Pro
+            </h1>
+            <div className="flex items-center gap-3 text-slate-400">
+              <Link to="/" className="flex items-center gap-1 text-cyan-400 hover:underline">
+                <Icon name="ArrowLeft" size={16} />
+                Документы
+              </Link>
+              <span className="text-slate-600">/</span>
+              <span className="text-slate-200">{project?.name || 'Просмотр таблицы'}</span>
+              <span className="flex items-center gap-1 rounded border border-slate-600 px-2 py-0.5 text-xs">
+                <Icon name="Eye" size={12} />
+                Только просмотр
+              </span>
+            </div>
+          </div>
+          {project && (
+            <Button onClick={copyToDocuments} disabled={isCopying} className="bg-gradient-to-r from-purple-500 to-cyan-500">
+              <Icon name={isCopying ? 'Loader2' : 'CopyPlus'} size={18} className={`mr-2 ${isCopying ? 'animate-spin' : ''}`} />
+              Копировать в мои документы
+            </Button>
+          )}
+        </header>
+
+        {error ? (
+          <Card className="p-8 max-w-lg mx-auto text-center border-slate-700 bg-slate-800/80">
+            <Icon name="Link2Off" size={40} className="mx-auto mb-4 text-slate-500" />
+            <h2 className="text-xl font-semibold text-slate-100 mb-2">Ссылку не удалось открыть</h2>
+            <p className="text-slate-400">{error}</p>
+          </Card>
+        ) : !project ? (
+          <div className="flex h-64 items-center justify-center text-slate-400">
+            <Icon name="Loader2" size={20} className="mr-2 animate-spin text-cyan-400" />
+            Распаковка таблицы…
+          </div>
+        ) : (
+          <Card className="p-4 shadow-2xl border-slate-700 bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur">
+            <Tabs defaultValue={sheets[project.activeIndex]?.id}>
+              {sheets.length > 1 && (
+                <TabsList className="mb-4 bg-slate-900/50">
+                  {sheets.map(sheet => (
+                    <TabsTrigger key={sheet.id} value={sheet.id} className="data-[state=active]:bg-purple-500">
+                      {sheet.name}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              )}
+              {sheets.map(sheet => (
+                <TabsContent key={sheet.id} value={sheet.id}>
+                  <ReadOnlySheet columns={sheet.columns} rowCount={sheet.rowCount} getValue={sheet.getValue} />
+                </TabsContent>
+              ))}
+            </Tabs>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedView;
@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// Версия из package.json, подставляется при сборке
+declare const __APP_VERSION__: string;
@@ -1,8 +1,11 @@
 import {defineConfig} from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import {readFileSync} from "fs";
 import {componentTagger} from "pp-tagger";
 
+const {version} = JSON.parse(readFileSync(path.resolve(__dirname, "package.json"), "utf8"));
+
 // https://vitejs.dev/config/
 export default defineConfig(({mode}) => ({
     plugins: [
@@ -10,6 +13,9 @@ export default defineConfig(({mode}) => ({
         mode === 'development' &&
         componentTagger(),
     ].filter(Boolean),
+    define: {
+        __APP_VERSION__: JSON.stringify(version),
+    },
     resolve: {
         alias: {
             "@": path.resolve(__dirname, "./src"),